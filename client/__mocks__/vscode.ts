@@ -6,25 +6,69 @@ const commands = {
 const workspace = {
     getConfiguration: () => {
         return {
-            get: function() {},
+            get: function(_property: string, defaultValue?: any) {
+                return defaultValue;
+            },
         };
     },
     onDidChangeConfiguration: () => {},
 };
 
-export { workspace, commands };
+const window = {
+    showQuickPick: jest.fn(),
+};
+
+const debug = {
+    activeDebugSession: undefined as any,
+    startDebugging: jest.fn(),
+};
+
+export { workspace, commands, window, debug };
 
 export enum ProgressLocation {
     Notification = 15,
 }
 
+export enum OverviewRulerLane {
+    Left = 1,
+}
+
 export class Uri {
     static parse(path: string) {
         return path;
     }
 }
 
+export class Range {
+    constructor(
+        public startLine: number,
+        public startCharacter: number,
+        public endLine: number,
+        public endCharacter: number
+    ) {}
+}
+
+export enum TreeItemCollapsibleState {
+    None = 0,
+    Collapsed = 1,
+    Expanded = 2,
+}
+
+export class TreeItem {
+    description?: string;
+    tooltip?: string;
+    resourceUri?: Uri;
+    command?: any;
+
+    constructor(
+        public label: string,
+        public collapsibleState?: TreeItemCollapsibleState
+    ) {}
+}
+
 export class EventEmitter {
+    event = jest.fn();
+
     fire(...args: any[]) {
         return args;
     }
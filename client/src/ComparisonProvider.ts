@@ -0,0 +1,61 @@
+import { TextDocumentContentProvider, Uri } from 'vscode';
+import { TestEvent, TestSuiteEvent } from 'vscode-test-adapter-api';
+
+interface Comparison {
+    expected: string;
+    actual: string;
+}
+
+export class ComparisonProvider implements TextDocumentContentProvider {
+    static scheme = 'phpunit-diff';
+
+    private comparisons: Map<string, Comparison> = new Map();
+
+    put(events: (TestSuiteEvent | TestEvent)[]) {
+        events.forEach((event: any) => {
+            if (event.type !== 'test') {
+                return;
+            }
+
+            const id =
+                typeof event.test === 'string' ? event.test : event.test.id;
+
+            event.expected !== undefined && event.actual !== undefined
+                ? this.comparisons.set(id, {
+                      expected: event.expected,
+                      actual: event.actual,
+                  })
+                : this.comparisons.delete(id);
+        });
+
+        return this;
+    }
+
+    has(id: string) {
+        return this.comparisons.has(id);
+    }
+
+    ids(): string[] {
+        return Array.from(this.comparisons.keys());
+    }
+
+    asUri(id: string, side: keyof Comparison): Uri {
+        return Uri.parse(
+            `${ComparisonProvider.scheme}:/${side}.php?${encodeURIComponent(
+                id
+            )}`
+        );
+    }
+
+    provideTextDocumentContent(uri: Uri): string {
+        const comparison = this.comparisons.get(decodeURIComponent(uri.query));
+
+        if (!comparison) {
+            return '';
+        }
+
+        return uri.path === '/expected.php'
+            ? comparison.expected
+            : comparison.actual;
+    }
+}
@@ -11,6 +11,10 @@ export class Configuration {
         return this.get('showAfterExecution', 'onFailure');
     }
 
+    get xdebugPort() {
+        return this.get('xdebugPort', 9003);
+    }
+
     get(property: string, defaultValue?: any) {
         return this._workspace
             .getConfiguration('phpunit')
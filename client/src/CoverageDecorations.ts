@@ -0,0 +1,89 @@
+import {
+    Disposable,
+    OverviewRulerLane,
+    Range,
+    TextEditor,
+    TextEditorDecorationType,
+    window,
+} from 'vscode';
+
+export interface FileCoverage {
+    uri: string;
+    covered: number[];
+    uncovered: number[];
+    methods: number;
+    coveredMethods: number;
+}
+
+export class CoverageDecorations implements Disposable {
+    private coverages: Map<string, FileCoverage> = new Map();
+    private covered?: TextEditorDecorationType;
+    private uncovered?: TextEditorDecorationType;
+
+    constructor(private _window = window) {}
+
+    put(coverages: FileCoverage[]) {
+        this.coverages.clear();
+        coverages.forEach(coverage =>
+            this.coverages.set(coverage.uri, coverage)
+        );
+
+        return this.decorate(this._window.visibleTextEditors || []);
+    }
+
+    decorate(editors: TextEditor[]) {
+        if (this.coverages.size === 0 && !this.covered) {
+            return this;
+        }
+
+        const [covered, uncovered] = this.getDecorationTypes();
+
+        editors.forEach(editor => {
+            const coverage = this.coverages.get(editor.document.uri.toString());
+
+            editor.setDecorations(
+                covered,
+                coverage ? this.asRanges(coverage.covered) : []
+            );
+            editor.setDecorations(
+                uncovered,
+                coverage ? this.asRanges(coverage.uncovered) : []
+            );
+        });
+
+        return this;
+    }
+
+    dispose() {
+        [this.covered, this.uncovered].forEach(type => type && type.dispose());
+        this.covered = undefined;
+        this.uncovered = undefined;
+        this.coverages.clear();
+    }
+
+    private getDecorationTypes(): TextEditorDecorationType[] {
+        if (!this.covered || !this.uncovered) {
+            this.covered = this.createDecorationType('rgba(46, 160, 67, 0.8)');
+            this.uncovered = this.createDecorationType(
+                'rgba(248, 81, 73, 0.8)'
+            );
+        }
+
+        return [this.covered, this.uncovered];
+    }
+
+    private createDecorationType(color: string) {
+        return this._window.createTextEditorDecorationType({
+            isWholeLine: true,
+            borderColor: color,
+            borderStyle: 'solid',
+            borderWidth: '0 0 0 3px',
+            overviewRulerColor: color,
+            overviewRulerLane: OverviewRulerLane.Left,
+        });
+    }
+
+    private asRanges(lines: number[]) {
+        return lines.map(line => new Range(line, 0, line, 0));
+    }
+}
@@ -0,0 +1,168 @@
+import {
+    Event,
+    EventEmitter,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+    Uri,
+} from 'vscode';
+import { FileCoverage } from './CoverageDecorations';
+
+export class CoverageNode {
+    children: CoverageNode[] = [];
+
+    constructor(public name: string, public coverage?: FileCoverage) {}
+
+    get statements(): number {
+        return this.sum(
+            coverage => coverage.covered.length + coverage.uncovered.length
+        );
+    }
+
+    get coveredStatements(): number {
+        return this.sum(coverage => coverage.covered.length);
+    }
+
+    get methods(): number {
+        return this.sum(coverage => coverage.methods);
+    }
+
+    get coveredMethods(): number {
+        return this.sum(coverage => coverage.coveredMethods);
+    }
+
+    get lineRate(): number {
+        return this.rate(this.coveredStatements, this.statements);
+    }
+
+    get methodRate(): number {
+        return this.rate(this.coveredMethods, this.methods);
+    }
+
+    child(name: string) {
+        let node = this.children.find(child => child.name === name);
+
+        if (!node) {
+            node = new CoverageNode(name);
+            this.children.push(node);
+        }
+
+        return node;
+    }
+
+    private sum(callback: (coverage: FileCoverage) => number): number {
+        return this.coverage
+            ? callback(this.coverage)
+            : this.children.reduce(
+                  (total, child) => total + child.sum(callback),
+                  0
+              );
+    }
+
+    private rate(covered: number, total: number) {
+        return total === 0 ? 1 : covered / total;
+    }
+}
+
+export class CoverageTreeProvider implements TreeDataProvider<CoverageNode> {
+    private readonly changeEmitter = new EventEmitter<
+        CoverageNode | undefined
+    >();
+    private root = new CoverageNode('');
+    private sortByCoverage = false;
+
+    get onDidChangeTreeData(): Event<CoverageNode | undefined> {
+        return this.changeEmitter.event;
+    }
+
+    put(coverages: FileCoverage[]) {
+        const paths = coverages.map(coverage => coverage.uri.split('/'));
+        const prefix = this.commonPrefix(paths);
+
+        this.root = new CoverageNode('');
+        coverages.forEach((coverage, index) => {
+            const segments = paths[index].slice(prefix);
+            const node = segments.reduce(
+                (parent, segment) => parent.child(segment),
+                this.root
+            );
+
+            node.coverage = coverage;
+        });
+
+        this.changeEmitter.fire(undefined);
+
+        return this;
+    }
+
+    toggleSort() {
+        this.sortByCoverage = !this.sortByCoverage;
+        this.changeEmitter.fire(undefined);
+
+        return this;
+    }
+
+    getChildren(node?: CoverageNode): CoverageNode[] {
+        return (node || this.root).children
+            .slice()
+            .sort((a, b) =>
+                this.sortByCoverage
+                    ? a.lineRate - b.lineRate || a.name.localeCompare(b.name)
+                    : Number(!!a.coverage) - Number(!!b.coverage) ||
+                      a.name.localeCompare(b.name)
+            );
+    }
+
+    getTreeItem(node: CoverageNode): TreeItem {
+        const item = new TreeItem(
+            node.name,
+            node.coverage
+                ? TreeItemCollapsibleState.None
+                : TreeItemCollapsibleState.Expanded
+        );
+
+        item.description = [
+            `${this.percent(node.lineRate)} lines`,
+            `${this.percent(node.methodRate)} methods`,
+        ].join(', ');
+        item.tooltip = [
+            `Lines: ${node.coveredStatements}/${node.statements}`,
+            `Methods: ${node.coveredMethods}/${node.methods}`,
+        ].join('\n');
+
+        if (node.coverage) {
+            item.resourceUri = Uri.parse(node.coverage.uri);
+            item.command = {
+                title: 'Open',
+                command: 'vscode.open',
+                arguments: [item.resourceUri],
+            };
+        }
+
+        return item;
+    }
+
+    private commonPrefix(paths: string[][]) {
+        if (paths.length === 0) {
+            return 0;
+        }
+
+        const directories = paths.map(path => path.slice(0, -1));
+        let length = 0;
+
+        while (
+            length < directories[0].length &&
+            directories.every(
+                directory => directory[length] === directories[0][length]
+            )
+        ) {
+            length++;
+        }
+
+        return length;
+    }
+
+    private percent(rate: number) {
+        return `${(rate * 100).toFixed(1)}%`;
+    }
+}
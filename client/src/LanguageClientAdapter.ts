@@ -1,6 +1,6 @@
 import md5 from 'md5';
 import { Event, EventEmitter, WorkspaceFolder } from 'vscode';
-import { LanguageClient } from 'vscode-languageclient';
+import { Command, LanguageClient } from 'vscode-languageclient';
 import { Log } from 'vscode-test-adapter-util';
 import {
     TestAdapter,
@@ -12,6 +12,7 @@ import {
     TestEvent,
     RetireEvent,
 } from 'vscode-test-adapter-api';
+import { XdebugSession } from './XdebugSession';
 
 export class LanguageClientAdapter implements TestAdapter {
     private disposables: { dispose(): void }[] = [];
@@ -43,11 +44,13 @@ export class LanguageClientAdapter implements TestAdapter {
     constructor(
         public workspaceFolder: WorkspaceFolder,
         private client: LanguageClient,
-        private log: Log
+        private log: Log,
+        private xdebug: XdebugSession
     ) {
         this.onTestLoadStartedEvent();
         this.onTestLoadFinishedEvent();
         this.onTestRunStartedEvent();
+        this.onTestRunProgressEvent();
         this.onTestRunFinishedEvent();
         this.onTestRetryEvent();
 
@@ -74,15 +77,26 @@ export class LanguageClientAdapter implements TestAdapter {
         });
     }
 
-    // debug?(tests: string[]): Promise<void> {
-    //     console.log(tests);
-    //     throw new Error('Method not implemented.');
-    // }
+    async debug(tests: string[]): Promise<void> {
+        await this.client.onReady();
+
+        if (!(await this.xdebug.start(this.workspaceFolder))) {
+            this.log.error('Unable to start a php debug session');
+
+            return;
+        }
+
+        this.client.sendNotification(this.requestName('TestRunStartedEvent'), {
+            tests,
+            debug: true,
+        });
+    }
 
     async cancel() {
         await this.client.onReady();
 
         this.client.sendNotification(this.requestName('TestCancelEvent'));
+        this.xdebug.stop();
     }
 
     async dispose(): Promise<void> {
@@ -131,13 +145,24 @@ export class LanguageClientAdapter implements TestAdapter {
         );
     }
 
+    private async onTestRunProgressEvent() {
+        await this.client.onReady();
+
+        this.client.onRequest(
+            this.requestName('TestRunProgressEvent'),
+            ({ events }) => this.updateEvents(events)
+        );
+    }
+
     private async onTestRunFinishedEvent() {
         await this.client.onReady();
 
         this.client.onRequest(
             this.requestName('TestRunFinishedEvent'),
-            ({ events, command }) => {
-                this.log.info(command);
+            ({ events, commands }) => {
+                (commands as Command[]).forEach(command =>
+                    this.log.info(command)
+                );
                 this.updateEvents(events);
 
                 this.testStatesEmitter.fire(<TestRunFinishedEvent>{
@@ -1,29 +1,73 @@
-import { commands, Disposable, OutputChannel, TextEditor } from 'vscode';
+import {
+    commands,
+    Disposable,
+    OutputChannel,
+    Range,
+    TextEditor,
+    Uri,
+    window,
+    workspace,
+} from 'vscode';
+import { ComparisonProvider } from './ComparisonProvider';
 import { Configuration } from './Configuration';
+import { CoverageDecorations } from './CoverageDecorations';
+import { CoverageTreeProvider } from './CoverageTreeProvider';
 import { ExecuteCommandRequest } from 'vscode-languageserver-protocol';
 import { LanguageClient } from 'vscode-languageclient';
 import { TestEvent } from 'vscode-test-adapter-api';
 import { Notify } from './Notify';
+import { XdebugSession } from './XdebugSession';
+
+interface ReportedTest {
+    id: string;
+    label: string;
+    description: string;
+    uri?: string;
+    line: number;
+}
+
+interface TestRun {
+    runId: number;
+    workspaceFolder: string;
+}
 
 export class LanguageClientController implements Disposable {
     private disposables: Disposable[] = [];
+    private runs: TestRun[] = [];
 
     constructor(
         private client: LanguageClient,
         private config: Configuration,
         private outputChannel: OutputChannel,
         private notify: Notify,
-        private _commands = commands
+        private _commands = commands,
+        private _window = window,
+        private _workspace = workspace,
+        private xdebug = new XdebugSession(config),
+        private comparisons = new ComparisonProvider(),
+        private coverage = new CoverageDecorations(_window),
+        private coverageTree = new CoverageTreeProvider()
     ) {}
 
     init() {
         this.runAll();
         this.rerun();
+        this.runFailed();
+        this.runWithCoverage();
         this.runFile();
         this.runTestAtCursor();
+        this.debugTestAtCursor();
+        this.runTestSuite();
+        this.runGroup();
+        this.excludeGroup();
+        this.showDiff();
+        this.slowestTests();
+        this.flakyTests();
         this.cancel();
         this.onTestRunStartedEvent();
+        this.onTestRunProgressEvent();
         this.onTestRunFinishedEvent();
+        this.onCoverageEvent();
 
         return this;
     }
@@ -38,36 +82,105 @@ export class LanguageClientController implements Disposable {
     private async onTestRunStartedEvent() {
         await this.client.onReady();
 
-        this.client.onNotification('TestRunStartedEvent', () => {
-            this.notify.show('PHPUnit Running');
+        this.client.onNotification(
+            'TestRunStartedEvent',
+            ({ runId, workspaceFolder, debug }: any = {}) => {
+                if (runId !== undefined) {
+                    this.runs.push({ runId, workspaceFolder });
+                }
+
+                if (debug === true) {
+                    this.xdebug.attach(runId);
+                }
+
+                this.notify.show('PHPUnit Running');
 
-            if (this.config.clearOutputOnRun === true) {
-                this.outputChannel.clear();
+                if (this.config.clearOutputOnRun === true) {
+                    this.outputChannel.clear();
+                }
             }
-        });
+        );
     }
 
-    private async onTestRunFinishedEvent() {
+    private async onTestRunProgressEvent() {
         await this.client.onReady();
 
-        this.client.onNotification('TestRunFinishedEvent', ({ events }) => {
-            this.notify.hide();
+        this.client.onNotification(
+            'TestRunProgressEvent',
+            ({ total, completed, passed, failed, skipped }) => {
+                const message = [
+                    total > 0 ? `${completed}/${total}` : `${completed}`,
+                    `${passed} passed`,
+                    `${failed} failed`,
+                    `${skipped} skipped`,
+                ].join(', ');
+
+                this.notify.report({
+                    message,
+                    increment: total > 0 ? 100 / total : undefined,
+                });
+            }
+        );
+    }
 
-            const showAfterExecution = this.config.showAfterExecution;
+    private async onTestRunFinishedEvent() {
+        await this.client.onReady();
 
-            const hasFailure = (events: TestEvent[]) => {
-                return events.some(event =>
-                    ['failed', 'errored'].includes(event.state)
+        this.client.onNotification(
+            'TestRunFinishedEvent',
+            ({ runId, workspaceFolder, events }) => {
+                this.runs = this.runs.filter(run =>
+                    runId === undefined
+                        ? run.workspaceFolder !== workspaceFolder
+                        : run.runId !== runId
                 );
-            };
+                this.notify.hide();
+                this.comparisons.put(events);
+                this.xdebug.finish(runId);
 
-            if (showAfterExecution === 'never') {
-                return;
-            }
+                const showAfterExecution = this.config.showAfterExecution;
+
+                const hasFailure = (events: TestEvent[]) => {
+                    return events.some(event =>
+                        ['failed', 'errored'].includes(event.state)
+                    );
+                };
 
-            if (showAfterExecution === 'always' || hasFailure(events)) {
-                this.outputChannel.show(true);
+                if (showAfterExecution === 'never') {
+                    return;
+                }
+
+                if (showAfterExecution === 'always' || hasFailure(events)) {
+                    this.outputChannel.show(true);
+                }
             }
+        );
+    }
+
+    private async onCoverageEvent() {
+        this.disposables.push(this.coverage);
+        this.disposables.push(
+            this._window.onDidChangeVisibleTextEditors(editors =>
+                this.coverage.decorate(editors)
+            )
+        );
+        this.disposables.push(
+            this._window.registerTreeDataProvider(
+                'phpunit.coverage',
+                this.coverageTree
+            )
+        );
+        this.disposables.push(
+            this._commands.registerCommand('phpunit.coverage.toggle-sort', () =>
+                this.coverageTree.toggleSort()
+            )
+        );
+
+        await this.client.onReady();
+
+        this.client.onNotification('CoverageEvent', ({ coverages }) => {
+            this.coverage.put(coverages);
+            this.coverageTree.put(coverages);
         });
     }
 
@@ -79,6 +192,14 @@ export class LanguageClientController implements Disposable {
         this.registerCommand('phpunit.rerun');
     }
 
+    private runFailed() {
+        this.registerWorkspaceCommand('phpunit.run-failed');
+    }
+
+    private runWithCoverage() {
+        this.registerWorkspaceCommand('phpunit.run-with-coverage');
+    }
+
     private runFile() {
         this.registerCommand('phpunit.run-file');
     }
@@ -87,8 +208,207 @@ export class LanguageClientController implements Disposable {
         this.registerCommand('phpunit.run-test-at-cursor');
     }
 
+    private debugTestAtCursor() {
+        this.disposables.push(
+            this._commands.registerCommand(
+                'phpunit.debug-test-at-cursor',
+                async (uri?: string, id?: string) => {
+                    await this.client.onReady();
+
+                    const args =
+                        uri && id
+                            ? [uri, id]
+                            : this.asCursorArguments(
+                                  this._window.activeTextEditor
+                              );
+
+                    if (!args) {
+                        return;
+                    }
+
+                    const workspaceFolder = this._workspace.getWorkspaceFolder(
+                        Uri.parse(args[0] as string)
+                    );
+
+                    if (!(await this.xdebug.start(workspaceFolder))) {
+                        return;
+                    }
+
+                    this.client.sendRequest(ExecuteCommandRequest.type, {
+                        command: 'phpunit.lsp.debug-test-at-cursor',
+                        arguments: args,
+                    });
+                }
+            )
+        );
+    }
+
+    private runTestSuite() {
+        this.registerPickCommand(
+            'phpunit.run-testsuite',
+            'phpunit.lsp.run-testsuite',
+            async uri => {
+                const testSuite = await this._window.showQuickPick(
+                    await this.query('phpunit.lsp.testsuites', uri),
+                    { placeHolder: 'Select a PHPUnit test suite' }
+                );
+
+                return testSuite ? [testSuite] : undefined;
+            }
+        );
+    }
+
+    private runGroup() {
+        this.registerPickCommand(
+            'phpunit.run-group',
+            'phpunit.lsp.run-group',
+            async uri => {
+                const groups = await this._window.showQuickPick(
+                    await this.query('phpunit.lsp.groups', uri),
+                    {
+                        placeHolder: 'Select the groups to run',
+                        canPickMany: true,
+                    }
+                );
+
+                return groups && groups.length > 0 ? [groups, []] : undefined;
+            }
+        );
+    }
+
+    private excludeGroup() {
+        this.registerPickCommand(
+            'phpunit.exclude-group',
+            'phpunit.lsp.run-group',
+            async uri => {
+                const groups = await this._window.showQuickPick(
+                    await this.query('phpunit.lsp.groups', uri),
+                    {
+                        placeHolder: 'Select the groups to exclude',
+                        canPickMany: true,
+                    }
+                );
+
+                return groups && groups.length > 0 ? [[], groups] : undefined;
+            }
+        );
+    }
+
+    private showDiff() {
+        this.disposables.push(
+            this._workspace.registerTextDocumentContentProvider(
+                ComparisonProvider.scheme,
+                this.comparisons
+            )
+        );
+
+        this.disposables.push(
+            this._commands.registerCommand(
+                'phpunit.show-diff',
+                async (id?: string) => {
+                    const test =
+                        id ||
+                        (await this._window.showQuickPick(
+                            this.comparisons.ids(),
+                            { placeHolder: 'Select a failed assertion' }
+                        ));
+
+                    if (!test || !this.comparisons.has(test)) {
+                        return;
+                    }
+
+                    await this._commands.executeCommand(
+                        'vscode.diff',
+                        this.comparisons.asUri(test, 'expected'),
+                        this.comparisons.asUri(test, 'actual'),
+                        `${test} (Expected ↔ Actual)`
+                    );
+                }
+            )
+        );
+    }
+
+    private slowestTests() {
+        this.registerReportCommand(
+            'phpunit.slowest-tests',
+            'phpunit.lsp.slowest-tests',
+            'Slowest tests of the recent runs'
+        );
+    }
+
+    private flakyTests() {
+        this.registerReportCommand(
+            'phpunit.flaky-tests',
+            'phpunit.lsp.flaky-tests',
+            'Tests flipping between passed and failed'
+        );
+    }
+
     private cancel() {
-        this.registerCommand('phpunit.cancel');
+        this.disposables.push(
+            this._commands.registerCommand('phpunit.cancel', async () => {
+                await this.client.onReady();
+
+                const run = this.runs[this.runs.length - 1];
+                const uri = run
+                    ? run.workspaceFolder
+                    : this.asWorkspaceFolderUri();
+
+                if (!uri) {
+                    return;
+                }
+
+                this.client.sendRequest(ExecuteCommandRequest.type, {
+                    command: 'phpunit.lsp.cancel',
+                    arguments: run ? [uri, run.runId] : [uri],
+                });
+            })
+        );
+    }
+
+    private registerReportCommand(
+        command: string,
+        lspCommand: string,
+        placeHolder: string
+    ) {
+        this.disposables.push(
+            this._commands.registerCommand(command, async () => {
+                await this.client.onReady();
+
+                const uri = this.asWorkspaceFolderUri();
+
+                if (!uri) {
+                    return;
+                }
+
+                const tests = await this.query<ReportedTest>(lspCommand, uri);
+
+                const item = await this._window.showQuickPick(
+                    tests.map(test => ({
+                        label: test.label,
+                        description: test.description,
+                        detail: test.id,
+                        test,
+                    })),
+                    { placeHolder }
+                );
+
+                if (!item || !item.test.uri) {
+                    return;
+                }
+
+                const position = new Range(
+                    item.test.line,
+                    0,
+                    item.test.line,
+                    0
+                );
+
+                await this._window.showTextDocument(Uri.parse(item.test.uri), {
+                    selection: position,
+                });
+            })
+        );
     }
 
     private registerCommand(command: string) {
@@ -98,25 +418,105 @@ export class LanguageClientController implements Disposable {
                 async textEditor => {
                     await this.client.onReady();
 
-                    if (this.isValidTextEditor(textEditor) === false) {
+                    const args = this.asCursorArguments(textEditor);
+
+                    if (!args) {
                         return;
                     }
 
-                    const document = textEditor.document;
-
                     this.client.sendRequest(ExecuteCommandRequest.type, {
                         command: command.replace(/^phpunit/, 'phpunit.lsp'),
-                        arguments: [
-                            document.uri.toString(),
-                            document.uri.toString(),
-                            textEditor.selection.active.line,
-                        ],
+                        arguments: args,
                     });
                 }
             )
         );
     }
 
+    private registerWorkspaceCommand(command: string) {
+        this.disposables.push(
+            this._commands.registerCommand(command, async () => {
+                await this.client.onReady();
+
+                const uri = this.asWorkspaceFolderUri();
+
+                if (!uri) {
+                    return;
+                }
+
+                this.client.sendRequest(ExecuteCommandRequest.type, {
+                    command: command.replace(/^phpunit/, 'phpunit.lsp'),
+                    arguments: [uri],
+                });
+            })
+        );
+    }
+
+    private registerPickCommand(
+        command: string,
+        lspCommand: string,
+        pick: (uri: string) => Promise<any[] | undefined>
+    ) {
+        this.disposables.push(
+            this._commands.registerCommand(command, async () => {
+                await this.client.onReady();
+
+                const uri = this.asWorkspaceFolderUri();
+
+                if (!uri) {
+                    return;
+                }
+
+                const args = await pick(uri);
+
+                if (!args) {
+                    return;
+                }
+
+                this.client.sendRequest(ExecuteCommandRequest.type, {
+                    command: lspCommand,
+                    arguments: [uri].concat(args),
+                });
+            })
+        );
+    }
+
+    private async query<T = string>(
+        command: string,
+        uri: string
+    ): Promise<T[]> {
+        return (
+            (await this.client.sendRequest(ExecuteCommandRequest.type, {
+                command,
+                arguments: [uri],
+            })) || []
+        );
+    }
+
+    private asCursorArguments(textEditor?: TextEditor) {
+        if (!textEditor || this.isValidTextEditor(textEditor) === false) {
+            return undefined;
+        }
+
+        const document = textEditor.document;
+
+        return [
+            document.uri.toString(),
+            document.uri.toString(),
+            textEditor.selection.active.line,
+        ];
+    }
+
+    private asWorkspaceFolderUri(): string | undefined {
+        const textEditor = this._window.activeTextEditor;
+        const workspaceFolder =
+            (textEditor &&
+                this._workspace.getWorkspaceFolder(textEditor.document.uri)) ||
+            (this._workspace.workspaceFolders || [])[0];
+
+        return workspaceFolder ? workspaceFolder.uri.toString() : undefined;
+    }
+
     private isValidTextEditor(editor: TextEditor): boolean {
         if (!editor || !editor.document) {
             return false;
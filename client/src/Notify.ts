@@ -33,7 +33,9 @@ export class Notify {
     }
 
     report(options: ProgressOptions) {
-        this.progress!.report(options);
+        if (this.progress) {
+            this.progress.report(options);
+        }
 
         return this;
     }
@@ -0,0 +1,46 @@
+import { Configuration } from './Configuration';
+import { debug, DebugSession, WorkspaceFolder } from 'vscode';
+
+export class XdebugSession {
+    private session?: DebugSession;
+    private runId?: number;
+
+    constructor(private config = new Configuration(), private _debug = debug) {}
+
+    async start(workspaceFolder: WorkspaceFolder | undefined) {
+        const started = await this._debug.startDebugging(workspaceFolder, {
+            type: 'php',
+            request: 'launch',
+            name: 'PHPUnit Xdebug',
+            port: this.config.xdebugPort,
+        });
+
+        this.session = started ? this._debug.activeDebugSession : undefined;
+        this.runId = undefined;
+
+        return started;
+    }
+
+    attach(runId: number) {
+        if (this.session && this.runId === undefined) {
+            this.runId = runId;
+        }
+    }
+
+    finish(runId?: number) {
+        // cancelling every run finishes without a run id
+        if (runId === undefined || runId === this.runId) {
+            this.stop();
+        }
+    }
+
+    stop() {
+        if (!this.session) {
+            return;
+        }
+
+        this.session.customRequest('disconnect');
+        this.session = undefined;
+        this.runId = undefined;
+    }
+}
@@ -19,6 +19,7 @@ import { TestAdapterRegistrar, Log } from 'vscode-test-adapter-util';
 import { LanguageClientAdapter } from './LanguageClientAdapter';
 import { LanguageClientController } from './LanguageClientController';
 import { Notify } from './Notify';
+import { XdebugSession } from './XdebugSession';
 // import { SocketOutputChannel } from './SocketOutputChannel';
 // import { Notify } from './Notify';
 
@@ -56,6 +57,8 @@ export function activate(context: ExtensionContext) {
         // Hijacks all LSP logs and redirect them to a specific port through WebSocket connection
         // outputChannel: websocketOutputChannel,
         outputChannel,
+        // cached results and run history are kept out of the workspace
+        initializationOptions: { storagePath: context.storagePath },
         middleware: {
             provideCodeLenses: () => {
                 return null;
@@ -73,12 +76,17 @@ export function activate(context: ExtensionContext) {
 
     const config = new Configuration(workspace);
     const notify = new Notify();
+    // the explorer and the commands debug through one configured session
+    const xdebug = new XdebugSession(config);
     const controller = new LanguageClientController(
         client,
         config,
         outputChannel,
         notify,
-        commands
+        commands,
+        window,
+        workspace,
+        xdebug
     );
 
     context.subscriptions.push(controller.init());
@@ -99,7 +107,12 @@ export function activate(context: ExtensionContext) {
             new TestAdapterRegistrar(
                 testHub,
                 workspaceFolder =>
-                    new LanguageClientAdapter(workspaceFolder, client, log),
+                    new LanguageClientAdapter(
+                        workspaceFolder,
+                        client,
+                        log,
+                        xdebug
+                    ),
                 log
             )
         );
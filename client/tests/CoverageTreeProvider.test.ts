@@ -0,0 +1,74 @@
+import { CoverageTreeProvider } from '../src/CoverageTreeProvider';
+import { TreeItemCollapsibleState } from 'vscode';
+
+describe('CoverageTreeProvider', () => {
+    const coverages = [
+        {
+            uri: 'file:///project/src/Calculator.php',
+            covered: [10, 15],
+            uncovered: [20],
+            methods: 3,
+            coveredMethods: 2,
+        },
+        {
+            uri: 'file:///project/src/Models/Item.php',
+            covered: [11],
+            uncovered: [12, 13, 14],
+            methods: 2,
+            coveredMethods: 1,
+        },
+    ];
+
+    const labels = (provider: CoverageTreeProvider, node?: any) =>
+        provider.getChildren(node).map(child => child.name);
+
+    it('group files by directory', () => {
+        const provider = new CoverageTreeProvider().put(coverages);
+        const [models] = provider.getChildren();
+
+        expect(labels(provider)).toEqual(['Models', 'Calculator.php']);
+        expect(labels(provider, models)).toEqual(['Item.php']);
+    });
+
+    it('line and method percentages', () => {
+        const provider = new CoverageTreeProvider().put(coverages);
+        const [models, calculator] = provider.getChildren();
+
+        expect(provider.getTreeItem(calculator)).toMatchObject({
+            label: 'Calculator.php',
+            collapsibleState: TreeItemCollapsibleState.None,
+            description: '66.7% lines, 66.7% methods',
+            command: {
+                command: 'vscode.open',
+                arguments: ['file:///project/src/Calculator.php'],
+            },
+        });
+        expect(provider.getTreeItem(models)).toMatchObject({
+            label: 'Models',
+            collapsibleState: TreeItemCollapsibleState.Expanded,
+            description: '25.0% lines, 50.0% methods',
+        });
+    });
+
+    it('sort by lowest coverage', () => {
+        const provider = new CoverageTreeProvider().put(coverages);
+
+        provider.toggleSort();
+
+        expect(labels(provider)).toEqual(['Models', 'Calculator.php']);
+
+        provider.put(
+            coverages
+                .slice()
+                .reverse()
+                .map(coverage =>
+                    Object.assign({}, coverage, {
+                        covered: coverage.uncovered,
+                        uncovered: coverage.covered,
+                    })
+                )
+        );
+
+        expect(labels(provider)).toEqual(['Calculator.php', 'Models']);
+    });
+});
@@ -1,6 +1,7 @@
 import { LanguageClientAdapter } from './../src/LanguageClientAdapter';
 import { Log } from 'vscode-test-adapter-util';
-import { Uri, WorkspaceFolder } from 'vscode';
+import { debug, Uri, WorkspaceFolder } from 'vscode';
+import { XdebugSession } from '../src/XdebugSession';
 
 describe('LanguageClientAdapterTest', () => {
     const workspaceFolder: WorkspaceFolder = {
@@ -31,7 +32,12 @@ describe('LanguageClientAdapterTest', () => {
     let adapter: LanguageClientAdapter;
 
     beforeEach(() => {
-        adapter = new LanguageClientAdapter(workspaceFolder, client, log);
+        adapter = new LanguageClientAdapter(
+            workspaceFolder,
+            client,
+            log,
+            new XdebugSession()
+        );
     });
 
     it('load', async () => {
@@ -58,6 +64,39 @@ describe('LanguageClientAdapterTest', () => {
         );
     });
 
+    it('debug', async () => {
+        const tests = ['foo'];
+        const session = { customRequest: jasmine.createSpy('customRequest') };
+        spyOn(debug, 'startDebugging').and.returnValue(Promise.resolve(true));
+        (debug as any).activeDebugSession = session;
+        spyOn(client, 'sendNotification');
+
+        await adapter.debug(tests);
+
+        expect(debug.startDebugging).toHaveBeenCalledWith(workspaceFolder, {
+            type: 'php',
+            request: 'launch',
+            name: 'PHPUnit Xdebug',
+            port: 9003,
+        });
+        expect(client.sendNotification).toHaveBeenCalledWith(
+            adapter.requestName('TestRunStartedEvent'),
+            { tests, debug: true }
+        );
+
+        client.triggerRequest(adapter.requestName('TestRunFinishedEvent'), {
+            events: [],
+            commands: [{ title: '', command: 'foo' }],
+        });
+
+        expect(session.customRequest).not.toHaveBeenCalled();
+
+        await adapter.cancel();
+
+        expect(session.customRequest).toHaveBeenCalledWith('disconnect');
+        (debug as any).activeDebugSession = undefined;
+    });
+
     it('cancel', async () => {
         spyOn(client, 'sendNotification');
 
@@ -140,7 +179,7 @@ describe('LanguageClientAdapterTest', () => {
 
         client.triggerRequest(adapter.requestName('TestRunFinishedEvent'), {
             events: [fooEvent],
-            command: fooCommand,
+            commands: [fooCommand],
         });
 
         expect(testStatesEmitter.fire).toHaveBeenCalledWith(fooEvent);
@@ -2,6 +2,7 @@ import { Command } from 'vscode-languageclient';
 import { Configuration } from '../src/Configuration';
 import { LanguageClientController } from '../src/LanguageClientController';
 import { Notify } from '../src/Notify';
+import { debug, Range } from 'vscode';
 
 describe('LanguageClientController', () => {
     const config = {
@@ -12,6 +13,13 @@ describe('LanguageClientController', () => {
         getConfiguration: () => {
             return config;
         },
+        getWorkspaceFolder: () => 'workspace-folder',
+        workspaceFolders: [{ uri: 'file:///project' }],
+        registerTextDocumentContentProvider: () => {
+            return {
+                dispose: () => {},
+            };
+        },
     };
     const outputChannel: any = {
         clear: () => {},
@@ -20,6 +28,27 @@ describe('LanguageClientController', () => {
 
     const notify = new Notify();
 
+    const window: any = {
+        showQuickPick: () => Promise.resolve('Package Test Suite'),
+        showTextDocument: () => Promise.resolve(),
+        visibleTextEditors: [],
+        onDidChangeVisibleTextEditors: () => {
+            return {
+                dispose: () => {},
+            };
+        },
+        createTextEditorDecorationType: () => {
+            return {
+                dispose: () => {},
+            };
+        },
+        registerTreeDataProvider: () => {
+            return {
+                dispose: () => {},
+            };
+        },
+    };
+
     const commands: any = {
         commands: {},
         registerTextEditorCommand: (name: string, cb: Function) => {
@@ -29,6 +58,10 @@ describe('LanguageClientController', () => {
                 dispose: () => {},
             };
         },
+        registerCommand: (name: string, cb: Function) => {
+            return commands.registerTextEditorCommand(name, cb);
+        },
+        executeCommand: () => {},
     };
 
     const textEditor = {
@@ -76,7 +109,9 @@ describe('LanguageClientController', () => {
             configuration,
             outputChannel,
             notify,
-            commands
+            commands,
+            window,
+            workspace
         );
         controller.init();
     });
@@ -95,6 +130,116 @@ describe('LanguageClientController', () => {
         });
     });
 
+    it('execute run failed', async () => {
+        expect(await client.triggerCommand('phpunit.run-failed')).toEqual({
+            command: 'phpunit.lsp.run-failed',
+            arguments: ['file:///project'],
+        });
+    });
+
+    it('execute run with coverage', async () => {
+        expect(
+            await client.triggerCommand('phpunit.run-with-coverage')
+        ).toEqual({
+            command: 'phpunit.lsp.run-with-coverage',
+            arguments: ['file:///project'],
+        });
+    });
+
+    it('decorate coverage', () => {
+        const editor = {
+            document: { uri: 'file:///src/Calculator.php' },
+            setDecorations: jasmine.createSpy('setDecorations'),
+        };
+        window.visibleTextEditors = [editor];
+
+        client.triggerNotification('CoverageEvent', {
+            coverages: [
+                {
+                    uri: 'file:///src/Calculator.php',
+                    covered: [10],
+                    uncovered: [20],
+                    methods: 1,
+                    coveredMethods: 1,
+                },
+            ],
+        });
+
+        expect(editor.setDecorations).toHaveBeenCalledWith(jasmine.anything(), [
+            new Range(10, 0, 10, 0),
+        ]);
+        expect(editor.setDecorations).toHaveBeenCalledWith(jasmine.anything(), [
+            new Range(20, 0, 20, 0),
+        ]);
+        window.visibleTextEditors = [];
+    });
+
+    it('debug test at cursor', async () => {
+        spyOn(debug, 'startDebugging').and.returnValue(Promise.resolve(true));
+        spyOn(client, 'sendRequest');
+        window.activeTextEditor = textEditor;
+
+        await commands.commands['phpunit.debug-test-at-cursor']();
+
+        expect(debug.startDebugging).toHaveBeenCalledWith(
+            'workspace-folder',
+            jasmine.objectContaining({ type: 'php', request: 'launch' })
+        );
+        expect(client.sendRequest).toHaveBeenCalledWith(jasmine.anything(), {
+            command: 'phpunit.lsp.debug-test-at-cursor',
+            arguments: ['foo.php', 'foo.php', 0],
+        });
+        window.activeTextEditor = undefined;
+    });
+
+    it('stop debugging once the debug run finished', async () => {
+        const session = { customRequest: jasmine.createSpy('customRequest') };
+        const finish = (runId: number) =>
+            client.triggerNotification('TestRunFinishedEvent', {
+                runId,
+                workspaceFolder: 'file:///project',
+                events: [],
+            });
+        spyOn(debug, 'startDebugging').and.returnValue(Promise.resolve(true));
+        spyOn(notify, 'show');
+        spyOn(notify, 'hide');
+        (debug as any).activeDebugSession = session;
+
+        await commands.commands['phpunit.debug-test-at-cursor'](
+            'file:///project',
+            'Tests\\CalculatorTest::test_sum'
+        );
+        finish(1);
+        client.triggerNotification('TestRunStartedEvent', {
+            runId: 2,
+            workspaceFolder: 'file:///project',
+            debug: true,
+        });
+        finish(1);
+
+        expect(session.customRequest).not.toHaveBeenCalled();
+
+        finish(2);
+
+        expect(session.customRequest).toHaveBeenCalledWith('disconnect');
+        (debug as any).activeDebugSession = undefined;
+    });
+
+    it('debug test of code lens', async () => {
+        spyOn(debug, 'startDebugging').and.returnValue(Promise.resolve(true));
+        spyOn(client, 'sendRequest');
+
+        await commands.commands['phpunit.debug-test-at-cursor'](
+            'file:///project',
+            'Tests\\CalculatorTest::test_sum'
+        );
+
+        expect(client.sendRequest).toHaveBeenCalledWith(jasmine.anything(), {
+            command: 'phpunit.lsp.debug-test-at-cursor',
+            arguments: ['file:///project', 'Tests\\CalculatorTest::test_sum'],
+        });
+    });
+
     it('execute run file', async () => {
         expect(await client.triggerCommand('phpunit.run-file')).toEqual({
             command: 'phpunit.lsp.run-file',
@@ -111,10 +256,92 @@ describe('LanguageClientController', () => {
         });
     });
 
+    it('execute run testsuite', async () => {
+        spyOn(window, 'showQuickPick').and.callThrough();
+
+        expect(await client.triggerCommand('phpunit.run-testsuite')).toEqual({
+            command: 'phpunit.lsp.run-testsuite',
+            arguments: ['file:///project', 'Package Test Suite'],
+        });
+        expect(client.requests['phpunit.lsp.testsuites']).toEqual({
+            command: 'phpunit.lsp.testsuites',
+            arguments: ['file:///project'],
+        });
+        expect(window.showQuickPick).toHaveBeenCalledWith([], {
+            placeHolder: 'Select a PHPUnit test suite',
+        });
+    });
+
+    it('execute run group', async () => {
+        spyOn(window, 'showQuickPick').and.returnValue(
+            Promise.resolve(['slow'])
+        );
+
+        expect(await client.triggerCommand('phpunit.run-group')).toEqual({
+            command: 'phpunit.lsp.run-group',
+            arguments: ['file:///project', ['slow'], []],
+        });
+    });
+
+    it('execute run group in the workspace folder of the active editor', async () => {
+        spyOn(workspace, 'getWorkspaceFolder').and.returnValue({
+            uri: 'file:///other',
+        });
+        spyOn(window, 'showQuickPick').and.returnValue(
+            Promise.resolve(['slow'])
+        );
+        window.activeTextEditor = textEditor;
+
+        expect(await client.triggerCommand('phpunit.run-group')).toEqual({
+            command: 'phpunit.lsp.run-group',
+            arguments: ['file:///other', ['slow'], []],
+        });
+        expect(workspace.getWorkspaceFolder).toHaveBeenCalledWith('foo.php');
+        window.activeTextEditor = undefined;
+    });
+
+    it('execute exclude group', async () => {
+        spyOn(window, 'showQuickPick').and.returnValue(
+            Promise.resolve(['slow'])
+        );
+
+        await commands.commands['phpunit.exclude-group']();
+
+        expect(client.requests['phpunit.lsp.run-group']).toEqual({
+            command: 'phpunit.lsp.run-group',
+            arguments: ['file:///project', [], ['slow']],
+        });
+    });
+
     it('execute cancel', async () => {
         expect(await client.triggerCommand('phpunit.cancel')).toEqual({
             command: 'phpunit.lsp.cancel',
-            arguments: ['foo.php', 'foo.php', 0],
+            arguments: ['file:///project'],
+        });
+    });
+
+    it('execute cancel of the latest run', async () => {
+        const workspaceFolder = 'file:///project';
+        spyOn(notify, 'show');
+        spyOn(notify, 'hide');
+
+        client.triggerNotification('TestRunStartedEvent', {
+            runId: 1,
+            workspaceFolder,
+        });
+        client.triggerNotification('TestRunStartedEvent', {
+            runId: 2,
+            workspaceFolder,
+        });
+        client.triggerNotification('TestRunFinishedEvent', {
+            runId: 2,
+            workspaceFolder,
+            events: [],
+        });
+
+        expect(await client.triggerCommand('phpunit.cancel')).toEqual({
+            command: 'phpunit.lsp.cancel',
+            arguments: [workspaceFolder, 1],
         });
     });
 
@@ -135,6 +362,88 @@ describe('LanguageClientController', () => {
         expect(notify.show).toHaveBeenCalled();
     });
 
+    it('report test run progress', () => {
+        spyOn(notify, 'report');
+
+        client.triggerNotification('TestRunProgressEvent', {
+            total: 4,
+            completed: 2,
+            passed: 1,
+            failed: 1,
+            skipped: 0,
+        });
+
+        expect(notify.report).toHaveBeenCalledWith({
+            message: '2/4, 1 passed, 1 failed, 0 skipped',
+            increment: 25,
+        });
+    });
+
+    it('show diff between expected and actual', async () => {
+        const id = 'Tests\\AssertionsTest::test_isnt_same';
+        spyOn(commands, 'executeCommand');
+
+        client.triggerNotification('TestRunFinishedEvent', {
+            events: [
+                {
+                    type: 'test',
+                    test: id,
+                    state: 'failed',
+                    expected: "['a' => 'b']",
+                    actual: "['e' => 'f']",
+                },
+            ],
+        });
+
+        await commands.commands['phpunit.show-diff'](id);
+
+        expect(commands.executeCommand).toHaveBeenCalledWith(
+            'vscode.diff',
+            `phpunit-diff:/expected.php?${encodeURIComponent(id)}`,
+            `phpunit-diff:/actual.php?${encodeURIComponent(id)}`,
+            `${id} (Expected ↔ Actual)`
+        );
+    });
+
+    it('slowest tests', async () => {
+        const test = {
+            id: 'Tests\\CalculatorTest::test_sum',
+            label: 'test_sum',
+            description: '1.52 s',
+            uri: 'file:///tests/CalculatorTest.php',
+            line: 12,
+        };
+        spyOn(client, 'sendRequest').and.returnValue(Promise.resolve([test]));
+        spyOn(window, 'showQuickPick').and.callFake((items: any[]) =>
+            Promise.resolve(items[0])
+        );
+        spyOn(window, 'showTextDocument');
+
+        await commands.commands['phpunit.slowest-tests']();
+
+        expect(window.showTextDocument).toHaveBeenCalledWith(
+            'file:///tests/CalculatorTest.php',
+            { selection: new Range(12, 0, 12, 0) }
+        );
+    });
+
+    it('flaky tests', async () => {
+        spyOn(client, 'sendRequest').and.returnValue(Promise.resolve([]));
+        spyOn(window, 'showQuickPick').and.returnValue(
+            Promise.resolve(undefined)
+        );
+
+        await commands.commands['phpunit.flaky-tests']();
+
+        expect(client.sendRequest).toHaveBeenCalledWith(jasmine.anything(), {
+            command: 'phpunit.lsp.flaky-tests',
+            arguments: ['file:///project'],
+        });
+        expect(window.showQuickPick).toHaveBeenCalledWith([], {
+            placeHolder: 'Tests flipping between passed and failed',
+        });
+    });
+
     it('show outputChanel when has error', () => {
         spyOn(config, 'get').and.returnValue('onFailure');
         spyOn(outputChannel, 'show');
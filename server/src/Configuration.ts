@@ -1,3 +1,6 @@
+import { DockerOptions, SshOptions } from './TestRunner';
+import { PathMappingEntry } from './PathMapping';
+import { RunMode } from './TestRunQueue';
 import {
     Connection,
     WorkspaceFolder as _WorkspaceFolder,
@@ -12,6 +15,23 @@ interface IConfiguration {
     php?: string;
     phpunit?: string;
     args?: string[];
+    excludeGroups?: string[];
+    streamResults?: boolean;
+    logJUnit?: boolean;
+    paraTest?: boolean;
+    paraTestProcesses?: number;
+    shards?: number;
+    runMode?: RunMode;
+    problemMatcher?: string;
+    slowThreshold?: number;
+    slowestTests?: number;
+    cacheResults?: boolean;
+    runFailedMaxAttempts?: number;
+    runHistory?: number;
+    xdebugPort?: number;
+    docker?: DockerOptions;
+    ssh?: SshOptions;
+    pathMappings?: PathMappingEntry[];
 }
 
 export class Configuration implements IConfiguration {
@@ -60,6 +80,86 @@ export class Configuration implements IConfiguration {
         return this.defaults.args;
     }
 
+    get excludeGroups(): string[] {
+        return this.defaults.excludeGroups || [];
+    }
+
+    get streamResults(): boolean {
+        return this.defaults.streamResults === true;
+    }
+
+    get logJUnit(): boolean {
+        return this.defaults.logJUnit === true;
+    }
+
+    get paraTest(): boolean {
+        return this.defaults.paraTest === true;
+    }
+
+    get paraTestProcesses(): number {
+        return Math.max(this.defaults.paraTestProcesses || 0, 0);
+    }
+
+    get shards(): number {
+        return Math.max(this.defaults.shards || 0, 0);
+    }
+
+    get runMode(): RunMode {
+        return this.defaults.runMode || 'queue';
+    }
+
+    get problemMatcher(): string {
+        return this.defaults.problemMatcher || 'output';
+    }
+
+    get slowThreshold(): number {
+        return this.defaults.slowThreshold === undefined
+            ? 500
+            : this.defaults.slowThreshold;
+    }
+
+    get slowestTests(): number {
+        return this.defaults.slowestTests || 10;
+    }
+
+    get cacheResults(): boolean {
+        return this.defaults.cacheResults === true;
+    }
+
+    get runFailedMaxAttempts(): number {
+        return Math.max(this.defaults.runFailedMaxAttempts || 1, 1);
+    }
+
+    get runHistory(): number {
+        return Math.max(this.defaults.runHistory || 0, 0);
+    }
+
+    get xdebugPort(): number {
+        return this.defaults.xdebugPort || 9003;
+    }
+
+    get docker(): DockerOptions {
+        const docker = this.defaults.docker || {};
+
+        return Object.assign({}, docker, {
+            workdir: docker.workdir || this.remoteCwd,
+        });
+    }
+
+    get ssh(): SshOptions {
+        const ssh = this.defaults.ssh || {};
+
+        return Object.assign({}, ssh, {
+            root: ssh.root || this.remoteCwd,
+        });
+    }
+
+    get pathMappings(): PathMappingEntry[] {
+        return (this.defaults.pathMappings || []).filter(
+            mapping => !!mapping.local && !!mapping.remote
+        );
+    }
+
     async update(configurationCapability = true) {
         if (configurationCapability) {
             this.defaults = await this.connection.workspace.getConfiguration({
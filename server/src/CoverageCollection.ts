@@ -0,0 +1,94 @@
+import files from './Filesystem';
+import { parse } from 'fast-xml-parser';
+import { PathMapping } from './PathMapping';
+
+export interface FileCoverage {
+    uri: string;
+    covered: number[];
+    uncovered: number[];
+    methods: number;
+    coveredMethods: number;
+}
+
+export class CoverageCollection {
+    private coverages: Map<string, FileCoverage> = new Map();
+
+    constructor(private _files = files) {}
+
+    parse(xml: string, pathMapping = new PathMapping()) {
+        const coverage = parse(xml, {
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            parseNodeValue: false,
+            parseAttributeValue: false,
+        }).coverage;
+
+        this.coverages.clear();
+
+        this.asArray(coverage ? coverage.project : [])
+            .reduce(
+                (nodes: any[], project: any) =>
+                    nodes.concat(
+                        this.asArray(project.file),
+                        this.asArray(project.package).reduce(
+                            (nodes: any[], node: any) =>
+                                nodes.concat(this.asArray(node.file)),
+                            []
+                        )
+                    ),
+                []
+            )
+            .forEach((node: any) => {
+                const coverage = this.asFileCoverage(node, pathMapping);
+
+                this.coverages.set(coverage.uri, coverage);
+            });
+
+        return this;
+    }
+
+    get(uri: string): FileCoverage | undefined {
+        return this.coverages.get(uri);
+    }
+
+    all(): FileCoverage[] {
+        return Array.from(this.coverages.values());
+    }
+
+    clear() {
+        this.coverages.clear();
+
+        return this;
+    }
+
+    private asFileCoverage(node: any, pathMapping: PathMapping): FileCoverage {
+        const lines = this.asArray(node.line);
+        const statements = lines.filter((line: any) => line.type !== 'method');
+        const methods = lines.filter((line: any) => line.type === 'method');
+        const numbers = (covered: boolean) =>
+            statements
+                .filter((line: any) => this.isCovered(line) === covered)
+                .map((line: any) => parseInt(line.num, 10) - 1);
+
+        return {
+            uri: this._files.asUri(pathMapping.toLocal(node.name)).toString(),
+            covered: numbers(true),
+            uncovered: numbers(false),
+            methods: methods.length,
+            coveredMethods: methods.filter((line: any) => this.isCovered(line))
+                .length,
+        };
+    }
+
+    private isCovered(line: any) {
+        return parseInt(line.count, 10) > 0;
+    }
+
+    private asArray(node: any): any[] {
+        if (node === undefined || node === null || node === '') {
+            return [];
+        }
+
+        return node instanceof Array ? node : [node];
+    }
+}
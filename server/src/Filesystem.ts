@@ -1,6 +1,16 @@
 import glob from 'glob';
 import URI, { setUriThrowOnMissingScheme } from 'vscode-uri';
-import { access, createReadStream, PathLike, readFile, writeFile } from 'fs';
+import {
+    access,
+    createReadStream,
+    mkdir,
+    mkdtemp,
+    PathLike,
+    readFile,
+    rmdir,
+    unlink,
+    writeFile,
+} from 'fs';
 import { createInterface } from 'readline';
 import { dirname, join } from 'path';
 import { Location, Position, Range } from 'vscode-languageserver-protocol';
@@ -91,6 +101,42 @@ export class Filesystem {
         });
     }
 
+    unlink(uri: PathLike | URI): Promise<boolean> {
+        return new Promise(resolve => {
+            unlink(
+                this.asUri(uri).fsPath,
+                (err: NodeJS.ErrnoException | null) =>
+                    resolve(err ? false : true)
+            );
+        });
+    }
+
+    mkdir(uri: PathLike | URI): Promise<boolean> {
+        return new Promise(resolve => {
+            mkdir(this.asUri(uri).fsPath, (err: NodeJS.ErrnoException | null) =>
+                resolve(err ? false : true)
+            );
+        });
+    }
+
+    mkdtemp(prefix: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            mkdtemp(
+                prefix,
+                (err: NodeJS.ErrnoException | null, folder: string) =>
+                    err ? reject(err) : resolve(folder)
+            );
+        });
+    }
+
+    rmdir(uri: PathLike | URI): Promise<boolean> {
+        return new Promise(resolve => {
+            rmdir(this.asUri(uri).fsPath, (err: NodeJS.ErrnoException | null) =>
+                resolve(err ? false : true)
+            );
+        });
+    }
+
     exists(uri: PathLike | URI): Promise<boolean> {
         return new Promise(resolve => {
             access(
@@ -158,7 +204,6 @@ export class Filesystem {
 
     lineAt(uri: PathLike | URI, lineNumber: number): Promise<string> {
         return new Promise((resolve, reject) => {
-
             let filename = this.asUri(uri).fsPath;
             if (this.remoteCwd) {
                 // for remote systems remove the root path to prevent a filestream error
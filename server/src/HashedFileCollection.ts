@@ -0,0 +1,85 @@
+import files from './Filesystem';
+import md5 from 'md5';
+import URI from 'vscode-uri';
+import { PathLike } from 'fs';
+
+export interface HashedFile {
+    hash: string;
+    dependencies?: string[];
+}
+
+export class HashedFileCollection<T extends HashedFile> {
+    private items: { [file: string]: T } = {};
+
+    constructor(private _files = files) {}
+
+    async load(uri: PathLike | URI) {
+        try {
+            this.items = JSON.parse(await this._files.get(uri)) || {};
+        } catch (e) {
+            this.items = {};
+        }
+
+        return this;
+    }
+
+    async save(uri: PathLike | URI) {
+        return await this._files.put(uri, JSON.stringify(this.items));
+    }
+
+    async put(
+        file: string,
+        dependencies: string[],
+        create: () => Pick<T, Exclude<keyof T, keyof HashedFile>>
+    ): Promise<T> {
+        const hash = await this.hash(file, dependencies);
+        const item =
+            this.items[file] && this.items[file].hash === hash
+                ? this.items[file]
+                : (Object.assign(create(), { hash, dependencies }) as T);
+
+        this.items[file] = item;
+
+        return item;
+    }
+
+    get(file: string): T | undefined {
+        return this.items[file];
+    }
+
+    files(): string[] {
+        return Object.keys(this.items);
+    }
+
+    async isChanged(file: string) {
+        const item = this.items[file];
+
+        return (
+            !item ||
+            item.hash !== (await this.hash(file, item.dependencies || []))
+        );
+    }
+
+    delete(file: string) {
+        delete this.items[file];
+
+        return this;
+    }
+
+    private async hash(file: string, dependencies: string[]) {
+        // inherited tests are declared in a parent class, whose file counts too
+        const files = [file].concat(
+            dependencies.filter(dependency => dependency !== file)
+        );
+
+        try {
+            return md5(
+                (await Promise.all(
+                    files.map(file => this._files.get(file))
+                )).join('\0')
+            );
+        } catch (e) {
+            return '';
+        }
+    }
+}
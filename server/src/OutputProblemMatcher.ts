@@ -1,5 +1,6 @@
 import { ProblemMatcher } from './ProblemMatcher';
 import { ProblemNode, Status } from './ProblemNode';
+import { TeamcityParser } from './TeamcityParser';
 import { TestNode } from './TestNode';
 import { TestSuiteCollection } from './TestSuiteCollection';
 import he from 'he';
@@ -20,22 +21,29 @@ const statusPattern = new RegExp(
     'i'
 );
 const classPattern = new RegExp('^\\d+\\)\\s(([^:]*)::([^\\s]*).*)$');
+const dataSetPattern = new RegExp(
+    '\\swith data set (#\\d+|"(?:[^"\\\\]|\\\\.)*")'
+);
 const messagePattern = new RegExp('^(.*)$');
 const filesPattern = new RegExp('^(.*):(\\d+)$');
 
 export class OutputProblemMatcher extends ProblemMatcher {
     private currentStatus: Status = this.asStatus('failure');
 
-    constructor(private suites?: TestSuiteCollection) {
+    constructor(
+        private suites?: TestSuiteCollection,
+        private parser = new TeamcityParser()
+    ) {
         super([classPattern, messagePattern, filesPattern]);
     }
 
     async parse(contents: string): Promise<ProblemNode[]> {
         this.currentStatus = this.asStatus('failure');
-        const problems = (await super.parse(contents)).map(problem => {
+        const output = this.parser.strip(contents);
+        const problems = (await super.parse(output)).map(problem => {
             problem.message = he.decode(problem.message);
 
-            return problem;
+            return problem.updateComparison();
         });
 
         return problems.map(problem => {
@@ -78,6 +86,7 @@ export class OutputProblemMatcher extends ProblemMatcher {
             case 0:
                 Object.assign(problem, this.parseNamespace(m[2]), {
                     method: m[3],
+                    dataSet: this.parseDataSet(m[1]),
                     status: this.currentStatus,
                 });
 
@@ -110,6 +119,12 @@ export class OutputProblemMatcher extends ProblemMatcher {
         return { namespace, class: clazz };
     }
 
+    private parseDataSet(name: string) {
+        const m = name.match(dataSetPattern);
+
+        return m ? m[1] : '';
+    }
+
     private asStatus(status: string): Status {
         for (const name in Status) {
             if (name.toLowerCase() === status) {
@@ -151,7 +166,7 @@ export class OutputProblemMatcher extends ProblemMatcher {
         }
 
         return {
-            file: test.file,
+            file: test.declaringFile,
             line: test.line,
         };
     }
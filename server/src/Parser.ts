@@ -3,6 +3,7 @@ import Engine from 'php-parser';
 import files from './Filesystem';
 import URI from 'vscode-uri';
 import { PathLike } from 'fs';
+import { SymbolCollection } from './SymbolCollection';
 import { TestNode, TestOptions, TestSuiteNode } from './TestNode';
 import {
     TextDocument,
@@ -15,7 +16,7 @@ const engine = Engine.create({
         withSource: true,
     },
     parser: {
-        php7: true,
+        version: '8.3',
         debug: false,
         extractDoc: true,
         suppressErrors: true,
@@ -29,16 +30,71 @@ const engine = Engine.create({
     },
 });
 
-class ClassNode {
-    constructor(private node: any, private options: TestOptions) {}
+interface Method {
+    node: any;
+    owner: ClassNode;
+}
+
+export class ClassNode {
+    constructor(
+        private node: any,
+        private options: TestOptions,
+        private uses: Map<string, string> = new Map(),
+        private symbols?: SymbolCollection
+    ) {}
+
+    get kind(): string {
+        return this.node.kind;
+    }
+
+    get name(): string {
+        return this.node.name.name;
+    }
+
+    get qualifiedName(): string {
+        return [this.options.namespace, this.name]
+            .filter(name => !!name)
+            .join('\\');
+    }
+
+    get uri(): string {
+        return this.options.uri.toString();
+    }
+
+    get isAbstract(): boolean {
+        return !!this.node.isAbstract;
+    }
+
+    get parent(): string | undefined {
+        return this.node.extends
+            ? this.resolveName(this.node.extends)
+            : undefined;
+    }
+
+    get traits(): string[] {
+        return (this.node.body || [])
+            .filter((node: any) => node.kind === 'traituse')
+            .reduce(
+                (traits: string[], node: any) =>
+                    traits.concat(
+                        node.traits.map((trait: any) => this.resolveName(trait))
+                    ),
+                []
+            );
+    }
+
+    get ancestors(): string[] {
+        return this.traits.concat(this.parent ? [this.parent] : []);
+    }
 
     asTestSuite(): TestSuiteNode | undefined {
         const options = this.getTestOptions();
-        const methods = this.getMethods();
+        const methods = this.getInheritedMethods();
 
         const tests = methods
-            .map((node: any) => this.asTest(node, options))
-            .filter((method: TestNode) => method.isTest());
+            .map(({ node, owner }) => this.asTest(node, options, owner))
+            .filter((method: TestNode) => method.isTest())
+            .map((method: TestNode) => this.putDataSets(method, methods));
 
         if (tests.length === 0) {
             return undefined;
@@ -47,8 +103,139 @@ class ClassNode {
         return new TestSuiteNode(this.node, tests, options);
     }
 
-    private asTest(node: any, testOptions: any) {
-        return new TestNode(node, testOptions);
+    private asTest(node: any, testOptions: TestOptions, owner: ClassNode) {
+        return new TestNode(
+            node,
+            owner === this
+                ? testOptions
+                : Object.assign({}, testOptions, {
+                      declaringUri: owner.options.uri,
+                      declaringClass: owner.qualifiedName,
+                  })
+        );
+    }
+
+    private putDataSets(test: TestNode, methods: Method[]) {
+        const providers = test.dataProviders.map(name =>
+            methods.find(
+                method =>
+                    method.node.name.name.toLowerCase() === name.toLowerCase()
+            )
+        );
+
+        const keys = providers.map(provider =>
+            provider ? this.getDataSetKeys(provider.node) : undefined
+        );
+
+        if (keys.length === 0 || keys.some(items => !items)) {
+            return test;
+        }
+
+        let index = 0;
+        (keys as (string | number)[][])
+            .reduce((dataSets, items) => dataSets.concat(items), [])
+            .map(key =>
+                keys.length > 1 && typeof key === 'number' ? index++ : key
+            )
+            .forEach(key =>
+                test.putDataSet(
+                    typeof key === 'number' ? `#${key}` : `"${key}"`
+                )
+            );
+
+        return test;
+    }
+
+    private getDataSetKeys(node: any): (string | number)[] | undefined {
+        const statement = ((node.body && node.body.children) || []).find(
+            (child: any) => child.kind === 'return'
+        );
+
+        if (!statement || !statement.expr || statement.expr.kind !== 'array') {
+            return undefined;
+        }
+
+        let next = 0;
+        const keys = statement.expr.items
+            .filter((item: any) => !!item)
+            .map((item: any) => {
+                const key = item.kind === 'entry' ? item.key : null;
+
+                if (item.unpack) {
+                    return undefined;
+                }
+
+                if (!key) {
+                    return next++;
+                }
+
+                if (
+                    key.kind === 'string' &&
+                    !/^(0|[1-9]\d*)$/.test(key.value)
+                ) {
+                    return key.value;
+                }
+
+                if (['string', 'number'].includes(key.kind)) {
+                    const value = parseInt(key.value, 10);
+                    next = Math.max(next, value + 1);
+
+                    return value;
+                }
+
+                return undefined;
+            });
+
+        return keys.some((key: any) => key === undefined) ? undefined : keys;
+    }
+
+    private getInheritedMethods(visited: ClassNode[] = []): Method[] {
+        visited.push(this);
+
+        const own: Method[] = this.getMethods().map((node: any) => ({
+            node,
+            owner: this,
+        }));
+
+        const inherited = this.ancestors
+            .map(name => (this.symbols ? this.symbols.find(name) : undefined))
+            .filter(
+                (clazz): clazz is ClassNode =>
+                    !!clazz && !visited.includes(clazz)
+            )
+            .reduce(
+                (methods: Method[], clazz) =>
+                    methods.concat(clazz.getInheritedMethods(visited)),
+                []
+            );
+
+        return own
+            .concat(inherited)
+            .filter(
+                (method, index, methods) =>
+                    methods.findIndex(
+                        m =>
+                            m.node.name.name.toLowerCase() ===
+                            method.node.name.name.toLowerCase()
+                    ) === index
+            );
+    }
+
+    private resolveName(node: any): string {
+        const name: string = node.name;
+
+        if (node.resolution === 'fqn' || name.indexOf('\\') === 0) {
+            return name.replace(/^\\/, '');
+        }
+
+        const [first, ...rest] = name.split('\\');
+        const alias = this.uses.get(first.toLowerCase());
+
+        if (alias) {
+            return [alias].concat(rest).join('\\');
+        }
+
+        return [this.options.namespace, name].filter(name => !!name).join('\\');
     }
 
     private fixLeadingComments(node: any, prev: any) {
@@ -94,8 +281,14 @@ class ClassNode {
             .filter((node: any) => node.kind === 'method');
     }
 
-    private getTestOptions() {
-        return Object.assign({ class: this.node.name.name }, this.options);
+    private getTestOptions(): TestOptions {
+        return Object.assign(
+            {
+                class: this.node.name.name,
+                groups: new TestSuiteNode(this.node, []).groups,
+            },
+            this.options
+        );
     }
 }
 
@@ -106,51 +299,118 @@ export default class Parser {
             name: '',
         },
         private _engine = engine,
-        private _files = files
+        private _files = files,
+        private symbols = new SymbolCollection()
     ) {}
 
-    async parse(uri: PathLike | URI): Promise<TestSuiteNode | undefined> {
+    async parse(uri: PathLike | URI): Promise<TestSuiteNode[]> {
         return this.parseCode(await this._files.get(uri), uri);
     }
 
-    parseTextDocument(textDocument: TextDocument | undefined): TestSuiteNode | undefined {
+    parseTextDocument(textDocument: TextDocument | undefined): TestSuiteNode[] {
         if (!textDocument) {
-            return undefined;
+            return [];
         }
 
         return this.parseCode(textDocument.getText(), textDocument.uri);
     }
 
-    parseCode(code: string, uri: PathLike | URI): TestSuiteNode | undefined {
+    parseCode(code: string, uri: PathLike | URI): TestSuiteNode[] {
+        return this.index(code, uri).resolve(uri);
+    }
+
+    index(code: string, uri: PathLike | URI) {
         const tree: any = this._engine.parseCode(code);
-        const classes = this.findClasses(this._files.asUri(uri), tree.children);
+        const _uri = this._files.asUri(uri);
+
+        this.symbols.put(_uri, this.findClasses(_uri, tree.children));
+
+        return this;
+    }
+
+    resolve(uri: PathLike | URI): TestSuiteNode[] {
+        return this.symbols
+            .get(this._files.asUri(uri))
+            .filter(clazz => this.isTestClass(clazz))
+            .map(clazz => clazz.asTestSuite())
+            .filter(suite => !!suite) as TestSuiteNode[];
+    }
+
+    dependents(uri: PathLike | URI): string[] {
+        return this.symbols.dependents(this._files.asUri(uri));
+    }
 
-        return !classes || classes.length === 0
-            ? undefined
-            : classes[0].asTestSuite();
+    forget(uri: PathLike | URI) {
+        this.symbols.delete(this._files.asUri(uri));
+
+        return this;
     }
 
-    private findClasses(uri: URI, nodes: any[], namespace = ''): ClassNode[] {
-        return nodes.reduce((classes: any[], node: any) => {
+    clear() {
+        this.symbols.clear();
+
+        return this;
+    }
+
+    private findClasses(
+        uri: URI,
+        nodes: any[],
+        namespace = '',
+        uses: Map<string, string> = new Map()
+    ): ClassNode[] {
+        return nodes.reduce((classes: ClassNode[], node: any) => {
             if (node.kind === 'namespace') {
                 return classes.concat(
                     this.findClasses(uri, node.children, node.name)
                 );
             }
 
-            return this.isTestClass(node)
+            if (node.kind === 'usegroup') {
+                this.putUses(node, uses);
+
+                return classes;
+            }
+
+            return this.isClassLike(node)
                 ? classes.concat(
-                      new ClassNode(node, {
-                          workspaceFolder: this.workspaceFolder,
-                          uri,
-                          namespace,
-                      })
+                      new ClassNode(
+                          node,
+                          {
+                              workspaceFolder: this.workspaceFolder,
+                              uri,
+                              namespace,
+                          },
+                          uses,
+                          this.symbols
+                      )
                   )
                 : classes;
         }, []);
     }
 
-    private isTestClass(node: any): boolean {
-        return node.kind === 'class' && !node.isAbstract;
+    private putUses(node: any, uses: Map<string, string>) {
+        if (node.type && node.type !== 'class') {
+            return;
+        }
+
+        (node.items || []).forEach((item: any) => {
+            const name = [node.name, item.name]
+                .filter(name => !!name)
+                .join('\\')
+                .replace(/^\\/, '');
+            const alias = item.alias
+                ? item.alias.name || item.alias
+                : name.substr(name.lastIndexOf('\\') + 1);
+
+            uses.set(alias.toLowerCase(), name);
+        });
+    }
+
+    private isClassLike(node: any): boolean {
+        return ['class', 'trait'].includes(node.kind);
+    }
+
+    private isTestClass(clazz: ClassNode): boolean {
+        return clazz.kind === 'class' && !clazz.isAbstract;
     }
 }
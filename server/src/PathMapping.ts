@@ -0,0 +1,72 @@
+export interface PathMappingEntry {
+    local: string;
+    remote: string;
+}
+
+export class PathMapping {
+    private mappings: PathMappingEntry[] = [];
+
+    constructor(local = '', remote = '') {
+        this.add(local, remote);
+    }
+
+    add(local: string, remote: string) {
+        if (local && remote && local !== remote) {
+            this.mappings.push({ local, remote });
+        }
+
+        return this;
+    }
+
+    isEmpty() {
+        return this.mappings.length === 0;
+    }
+
+    toRemote(path: string): string {
+        const mapping = this.sortBy('local').find(mapping =>
+            this.startsWith(path, mapping.local)
+        );
+
+        return mapping
+            ? (mapping.remote + path.substr(mapping.local.length)).replace(
+                  /\\/g,
+                  '/'
+              )
+            : path;
+    }
+
+    toLocal(text: string): string {
+        if (this.isEmpty()) {
+            return text;
+        }
+
+        const mappings = this.sortBy('remote');
+
+        return text.replace(this.pattern(mappings), remote => {
+            const mapping = mappings.find(mapping => mapping.remote === remote);
+
+            return mapping ? mapping.local : remote;
+        });
+    }
+
+    private sortBy(key: keyof PathMappingEntry) {
+        return this.mappings
+            .slice()
+            .sort((a, b) => b[key].length - a[key].length);
+    }
+
+    private startsWith(path: string, prefix: string) {
+        return (
+            path === prefix ||
+            (path.indexOf(prefix) === 0 && /[\\/]/.test(path[prefix.length]))
+        );
+    }
+
+    private pattern(mappings: PathMappingEntry[]) {
+        const remotes = mappings.map(mapping =>
+            mapping.remote.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        );
+
+        return new RegExp(`(?:${remotes.join('|')})(?![\\w.-])`, 'g');
+    }
+}
@@ -0,0 +1,189 @@
+import files from './Filesystem';
+import URI from 'vscode-uri';
+import { basename, dirname, isAbsolute, relative, resolve } from 'path';
+import { parse } from 'fast-xml-parser';
+import { PathLike } from 'fs';
+import { SpawnOptions } from 'child_process';
+
+export interface TestSuiteDirectory {
+    path: string;
+    prefix: string;
+    suffix: string;
+}
+
+export interface TestSuiteDefinition {
+    name: string;
+    directories: TestSuiteDirectory[];
+    files: string[];
+    excludes: string[];
+}
+
+export class PhpUnitXml {
+    private file = '';
+    private testSuites: TestSuiteDefinition[] = [];
+    private coverageClover = '';
+
+    constructor(private _files = files) {}
+
+    async findup(options?: SpawnOptions): Promise<string | void> {
+        return await this._files.findup(
+            ['phpunit.xml', 'phpunit.xml.dist'],
+            options
+        );
+    }
+
+    async load(options?: SpawnOptions) {
+        const file = await this.findup(options);
+
+        if (!file) {
+            this.file = '';
+            this.testSuites = [];
+            this.coverageClover = '';
+
+            return this;
+        }
+
+        return this.parse(await this._files.get(file), file);
+    }
+
+    parse(xml: string, file: string) {
+        const root = dirname(file);
+        const phpunit = parse(xml, {
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            textNodeName: '#text',
+            parseNodeValue: false,
+            parseAttributeValue: false,
+        }).phpunit;
+
+        this.file = file;
+        this.testSuites = this.asArray(
+            phpunit && phpunit.testsuites ? phpunit.testsuites.testsuite : []
+        ).map((testSuite: any) => ({
+            name: testSuite.name || '',
+            directories: this.asArray(testSuite.directory).map(
+                (directory: any) => ({
+                    path: resolve(root, this.textOf(directory)),
+                    prefix: directory.prefix || '',
+                    suffix: directory.suffix || 'Test.php',
+                })
+            ),
+            files: this.asArray(testSuite.file).map((file: any) =>
+                resolve(root, this.textOf(file))
+            ),
+            excludes: this.asArray(testSuite.exclude).map((exclude: any) =>
+                resolve(root, this.textOf(exclude))
+            ),
+        }));
+        this.coverageClover = this.findCoverageClover(phpunit, root);
+
+        return this;
+    }
+
+    getFile() {
+        return this.file;
+    }
+
+    getTestSuites() {
+        return this.testSuites;
+    }
+
+    getCoverageClover() {
+        return this.coverageClover;
+    }
+
+    hasTestSuites() {
+        return this.testSuites.length > 0;
+    }
+
+    getPatterns(): string[] {
+        return this.testSuites
+            .reduce(
+                (patterns: string[], testSuite) =>
+                    patterns.concat(
+                        testSuite.directories.map(
+                            directory => `${directory.path}/**/*.php`
+                        ),
+                        testSuite.files
+                    ),
+                []
+            )
+            .map(pattern => pattern.replace(/\\/g, '/'))
+            .filter((pattern, index, patterns) => {
+                return patterns.indexOf(pattern) === index;
+            });
+    }
+
+    testSuitesOf(uri: PathLike | URI): string[] {
+        const file = this._files.asUri(uri).fsPath;
+
+        return this.testSuites
+            .filter(testSuite => this.inTestSuite(testSuite, file))
+            .map(testSuite => testSuite.name);
+    }
+
+    private findCoverageClover(phpunit: any, root: string) {
+        const log = this.asArray(
+            phpunit && phpunit.logging ? phpunit.logging.log : []
+        ).find((log: any) => log.type === 'coverage-clover');
+
+        if (log && log.target) {
+            return resolve(root, log.target);
+        }
+
+        const report =
+            phpunit && phpunit.coverage && phpunit.coverage.report
+                ? phpunit.coverage.report
+                : {};
+
+        return report.clover && report.clover.outputFile
+            ? resolve(root, report.clover.outputFile)
+            : '';
+    }
+
+    private inTestSuite(testSuite: TestSuiteDefinition, file: string) {
+        if (testSuite.excludes.some(exclude => this.contains(exclude, file))) {
+            return false;
+        }
+
+        if (testSuite.files.some(path => this.isSamePath(path, file))) {
+            return true;
+        }
+
+        const name = basename(file);
+
+        return testSuite.directories.some(
+            directory =>
+                this.contains(directory.path, file) &&
+                name.indexOf(directory.prefix) === 0 &&
+                name.endsWith(directory.suffix)
+        );
+    }
+
+    private contains(path: string, file: string) {
+        const relativePath = relative(path, file);
+
+        return (
+            relativePath === '' ||
+            (!!relativePath &&
+                relativePath.indexOf('..') !== 0 &&
+                !isAbsolute(relativePath))
+        );
+    }
+
+    private isSamePath(path: string, file: string) {
+        return relative(path, file) === '';
+    }
+
+    private textOf(node: any): string {
+        return (typeof node === 'string' ? node : node['#text'] || '').trim();
+    }
+
+    private asArray(node: any): any[] {
+        if (node === undefined || node === null || node === '') {
+            return [];
+        }
+
+        return node instanceof Array ? node : [node];
+    }
+}
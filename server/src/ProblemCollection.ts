@@ -84,11 +84,15 @@ export class ProblemCollection {
     }
 
     private setProblemPassed(id: string) {
-        if (this.problems.has(id)) {
-            const problem = this.problems.get(id)!;
-            problem.status = Status.PASSED;
-            this.problems.set(problem.id, problem);
-        }
+        this.all()
+            .filter(
+                problem =>
+                    problem.id === id ||
+                    problem.id.indexOf(`${id} with data set `) === 0
+            )
+            .forEach(problem => {
+                problem.status = Status.PASSED;
+            });
     }
 
     private testAsProblems(test: TestEventGroup): Problem[] {
@@ -100,6 +104,12 @@ export class ProblemCollection {
             );
         }
 
+        if (test instanceof TestNode && test.dataSets.length > 0) {
+            problems.push(
+                ...test.dataSets.map(dataSet => this.testAsProblems(dataSet)[0])
+            );
+        }
+
         return problems.concat([
             {
                 type: 'problem',
@@ -1,6 +1,10 @@
 import { ProblemNode } from './ProblemNode';
 
-export abstract class ProblemMatcher {
+export interface IProblemMatcher {
+    parse(contents: string): Promise<ProblemNode[]>;
+}
+
+export abstract class ProblemMatcher implements IProblemMatcher {
     private problems: ProblemNode[] = [];
     private problemIndex = -1;
     private currentIndex = -1;
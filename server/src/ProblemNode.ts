@@ -33,12 +33,18 @@ export interface Location {
     line: number;
 }
 
-export interface Problem extends Location {
+export interface Comparison {
+    expected?: string;
+    actual?: string;
+}
+
+export interface Problem extends Location, Comparison {
     type: 'problem';
     id: string;
     namespace?: string;
     class?: string;
     method?: string;
+    dataSet?: string;
     status: Status;
     message: string;
     files: Location[];
@@ -50,11 +56,14 @@ export class ProblemNode implements Problem {
     namespace = '';
     class = '';
     method = '';
+    dataSet = '';
     status = Status.FAILURE;
     file = '';
     line = 0;
     message = '';
     files: Location[] = [];
+    expected?: string;
+    actual?: string;
 
     constructor(private _files = files) {}
 
@@ -65,16 +74,63 @@ export class ProblemNode implements Problem {
 
         this.id = `${qualifiedClassName}::${this.method}`;
 
+        if (this.dataSet) {
+            this.id += ` with data set ${this.dataSet}`;
+        }
+
         return this;
     }
 
-    asTestEvent(): TestEvent {
+    updateComparison() {
+        const lines = this.message.split(/\r\n|\r|\n/g);
+        const start = lines.indexOf('--- Expected');
+
+        if (start !== -1 && lines[start + 1] === '+++ Actual') {
+            const expected: string[] = [];
+            const actual: string[] = [];
+
+            for (const line of lines.slice(start + 2)) {
+                if (!line) {
+                    break;
+                }
+
+                if (/^@@.*@@$/.test(line)) {
+                    continue;
+                }
+
+                if (line.charAt(0) !== '+') {
+                    expected.push(line.substr(1));
+                }
+
+                if (line.charAt(0) !== '-') {
+                    actual.push(line.substr(1));
+                }
+            }
+
+            return Object.assign(this, {
+                expected: expected.join('\n'),
+                actual: actual.join('\n'),
+            });
+        }
+
+        const matches = this.message.match(
+            /Failed asserting that (.+) (?:matches expected|is identical to) (.+)\.$/m
+        );
+
+        return matches
+            ? Object.assign(this, { expected: matches[2], actual: matches[1] })
+            : this;
+    }
+
+    asTestEvent(): TestEvent & Comparison {
         return {
             type: 'test',
             test: this.id,
             state: this.getEventState() as TestEvent['state'],
             message: this.message,
             decorations: this.asTestDecorations(),
+            expected: this.expected,
+            actual: this.actual,
         };
     }
 
@@ -101,6 +157,10 @@ export class ProblemNode implements Problem {
     }
 
     private asTestDecorations() {
+        if (this.status === Status.PASSED) {
+            return [];
+        }
+
         return [{ file: this.file, line: this.line }]
             .concat(this.files)
             .filter(l => l.file === this.file && l.line >= 0)
@@ -4,12 +4,23 @@ import { Command } from 'vscode-languageserver-protocol';
 export class Process {
     private process: ChildProcess | null = null;
     private reject: Function | null = null;
+    private killTree = false;
+    private listeners: ((line: string) => void)[] = [];
+
+    onLine(listener: (line: string) => void) {
+        this.listeners.push(listener);
+
+        return this;
+    }
 
     run(command: Command, options?: SpawnOptions): Promise<string> {
         return new Promise((resolve, reject) => {
             this.reject = reject;
+            this.killTree = !!(options && options.detached);
 
             const buffers: any[] = [];
+            const stdout = this.createLineReader();
+            const stderr = this.createLineReader();
             command.arguments = command.arguments || [];
 
             this.process = spawn(
@@ -24,10 +35,12 @@ export class Process {
 
             this.process.stdout!.on('data', data => {
                 buffers.push(data);
+                stdout(data.toString());
             });
 
             this.process.stderr!.on('data', data => {
                 buffers.push(data);
+                stderr(data.toString());
             });
 
             this.process.on('error', (err: any) => {
@@ -35,6 +48,9 @@ export class Process {
             });
 
             this.process.on('close', () => {
+                stdout('\n');
+                stderr('\n');
+
                 const output = buffers.reduce((response, buffer) => {
                     return (response += buffer.toString());
                 }, '');
@@ -49,6 +65,10 @@ export class Process {
             return false;
         }
 
+        if (this.killTree) {
+            this.killProcessTree(this.process.pid);
+        }
+
         this.process.kill();
 
         if (this.process.killed === true && this.reject) {
@@ -59,4 +79,36 @@ export class Process {
 
         return false;
     }
+
+    private killProcessTree(pid: number) {
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', `${pid}`, '/T', '/F']);
+
+            return;
+        }
+
+        try {
+            // a detached process leads its own group, so its children go too
+            process.kill(-pid);
+        } catch (e) {}
+    }
+
+    private createLineReader() {
+        let remaining = '';
+
+        return (data: string) => {
+            if (this.listeners.length === 0) {
+                return;
+            }
+
+            const lines = (remaining + data).split(/\r\n|\r|\n/g);
+            remaining = lines.pop() || '';
+
+            lines
+                .filter(line => !!line)
+                .forEach(line =>
+                    this.listeners.forEach(listener => listener(line))
+                );
+        };
+    }
 }
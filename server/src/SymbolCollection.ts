@@ -0,0 +1,89 @@
+import URI from 'vscode-uri';
+import { ClassNode } from './Parser';
+
+export class SymbolCollection {
+    private symbols: Map<string, ClassNode[]> = new Map();
+    private names: Map<string, ClassNode> = new Map();
+
+    put(uri: URI, classes: ClassNode[]) {
+        this.delete(uri);
+
+        this.symbols.set(uri.toString(), classes);
+        classes.forEach(clazz =>
+            this.names.set(this.asKey(clazz.qualifiedName), clazz)
+        );
+
+        return this;
+    }
+
+    get(uri: URI): ClassNode[] {
+        return this.symbols.get(uri.toString()) || [];
+    }
+
+    delete(uri: URI) {
+        this.get(uri).forEach(clazz => {
+            const key = this.asKey(clazz.qualifiedName);
+
+            if (this.names.get(key) === clazz) {
+                this.names.delete(key);
+            }
+        });
+
+        return this.symbols.delete(uri.toString());
+    }
+
+    clear() {
+        this.symbols.clear();
+        this.names.clear();
+
+        return this;
+    }
+
+    find(qualifiedName: string): ClassNode | undefined {
+        return this.names.get(this.asKey(qualifiedName));
+    }
+
+    all(): ClassNode[] {
+        return Array.from(this.symbols.values()).reduce(
+            (classes: ClassNode[], items) => classes.concat(items),
+            []
+        );
+    }
+
+    dependents(uri: URI): string[] {
+        const file = uri.toString();
+        const declared = this.get(uri).map(clazz =>
+            this.asKey(clazz.qualifiedName)
+        );
+
+        if (declared.length === 0) {
+            return [];
+        }
+
+        return this.all()
+            .filter(clazz => clazz.uri !== file)
+            .filter(clazz =>
+                this.ancestors(clazz).some(name => declared.includes(name))
+            )
+            .map(clazz => clazz.uri)
+            .filter((uri, index, uris) => uris.indexOf(uri) === index);
+    }
+
+    private ancestors(clazz: ClassNode, visited: string[] = []): string[] {
+        return clazz.ancestors
+            .map(name => this.asKey(name))
+            .filter(name => !visited.includes(name))
+            .reduce((names: string[], name: string) => {
+                visited.push(name);
+                const parent = this.find(name);
+
+                return names
+                    .concat([name])
+                    .concat(parent ? this.ancestors(parent, visited) : []);
+            }, []);
+    }
+
+    private asKey(qualifiedName: string) {
+        return qualifiedName.replace(/^\\/, '').toLowerCase();
+    }
+}
@@ -0,0 +1,57 @@
+export interface ServiceMessage {
+    name: string;
+    attributes: { [key: string]: string };
+}
+
+export class TeamcityParser {
+    private pattern = /^\s*##teamcity\[(\S+)(.*)\]\s*$/;
+    private attributePattern = /(\w+)='((?:[^'|]|\|.)*)'/g;
+
+    isServiceMessage(line: string): boolean {
+        return this.pattern.test(line);
+    }
+
+    parse(line: string): ServiceMessage | undefined {
+        const matches = line.match(this.pattern);
+
+        if (!matches) {
+            return undefined;
+        }
+
+        const attributes: { [key: string]: string } = {};
+        let attribute: RegExpExecArray | null;
+
+        this.attributePattern.lastIndex = 0;
+        while ((attribute = this.attributePattern.exec(matches[2]))) {
+            attributes[attribute[1]] = this.unescape(attribute[2]);
+        }
+
+        return {
+            name: matches[1],
+            attributes,
+        };
+    }
+
+    strip(output: string): string {
+        return output
+            .split(/\r\n|\r|\n/g)
+            .filter(line => !this.isServiceMessage(line))
+            .join('\n');
+    }
+
+    private unescape(value: string) {
+        const characters: { [key: string]: string } = {
+            n: '\n',
+            r: '\r',
+            '|': '|',
+            "'": "'",
+            '[': '[',
+            ']': ']',
+        };
+
+        return value.replace(
+            /\|(.)/g,
+            (text: string, character: string) => characters[character] || text
+        );
+    }
+}
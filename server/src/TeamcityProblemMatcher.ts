@@ -0,0 +1,150 @@
+import { IProblemMatcher } from './ProblemMatcher';
+import { ProblemNode, Status } from './ProblemNode';
+import { ServiceMessage, TeamcityParser } from './TeamcityParser';
+import { TestNode } from './TestNode';
+import { TestSuiteCollection } from './TestSuiteCollection';
+
+const locationHintPattern = new RegExp('^php_qn://(.*?)::\\\\?([^:]+)::(.*)$');
+const dataSetPattern = new RegExp(
+    '^(.*?)(?: with data set (#\\d+|"(?:[^"\\\\]|\\\\.)*"))?$'
+);
+const filesPattern = new RegExp('^\\s*(.*):(\\d+)\\s*$');
+const errorPattern = new RegExp('^\\\\?[A-Za-z_][\\w\\\\]*\\s?:\\s');
+
+export class TeamcityProblemMatcher implements IProblemMatcher {
+    private nodes: ProblemNode[] = [];
+    private running: Map<string, ProblemNode> = new Map();
+
+    constructor(
+        private suites?: TestSuiteCollection,
+        private parser = new TeamcityParser()
+    ) {}
+
+    async parse(contents: string): Promise<ProblemNode[]> {
+        this.nodes = [];
+        this.running.clear();
+
+        for (const line of contents.split(/\r\n|\r|\n/g)) {
+            this.parseLine(line);
+        }
+
+        return this.nodes;
+    }
+
+    private parseLine(line: string) {
+        const message = this.parser.parse(line);
+
+        if (!message) {
+            return;
+        }
+
+        switch (message.name) {
+            case 'testStarted':
+                this.start(message);
+                break;
+            case 'testFailed':
+                this.fail(message, this.asFailedStatus(message));
+                break;
+            case 'testIgnored':
+                this.fail(message, Status.SKIPPED);
+                break;
+            case 'testFinished':
+                this.running.delete(message.attributes.name);
+                break;
+        }
+    }
+
+    private start(message: ServiceMessage) {
+        const matches = (message.attributes.locationHint || '').match(
+            locationHintPattern
+        );
+
+        if (!matches) {
+            return;
+        }
+
+        const [, file, qualifiedClassName, name] = matches;
+        const [, method, dataSet] = name.match(dataSetPattern)!;
+        const lastIndexOfSlash = qualifiedClassName.lastIndexOf('\\');
+
+        const problem = Object.assign(new ProblemNode(), {
+            namespace: qualifiedClassName.substr(
+                0,
+                Math.max(lastIndexOfSlash, 0)
+            ),
+            class: qualifiedClassName.substr(lastIndexOfSlash + 1),
+            method,
+            dataSet: dataSet || '',
+            status: Status.PASSED,
+            file,
+        }).updateId();
+
+        problem.line = this.findLineFromSuites(problem);
+
+        this.nodes.push(problem);
+        this.running.set(message.attributes.name, problem);
+    }
+
+    private fail(message: ServiceMessage, status: Status) {
+        const problem = this.running.get(message.attributes.name);
+
+        if (!problem) {
+            return;
+        }
+
+        const files = (message.attributes.details || '')
+            .split(/\r\n|\r|\n/g)
+            .map(line => line.match(filesPattern))
+            .filter(matches => !!matches)
+            .map(matches => ({
+                file: matches![1],
+                line: parseInt(matches![2], 10) - 1,
+            }));
+
+        const location = files
+            .slice()
+            .reverse()
+            .find(location => location.file === problem.file);
+
+        Object.assign(problem, {
+            status,
+            message: `${message.attributes.message || ''}\n`,
+            line: location ? location.line : problem.line,
+            files: files.filter(file => file !== location),
+        });
+
+        if (message.attributes.type === 'comparisonFailure') {
+            Object.assign(problem, {
+                expected: message.attributes.expected,
+                actual: message.attributes.actual,
+            });
+        }
+    }
+
+    private asFailedStatus(message: ServiceMessage) {
+        // errors are reported as testFailed too, prefixed by the exception class
+        return errorPattern.test(message.attributes.message || '')
+            ? Status.ERROR
+            : Status.FAILURE;
+    }
+
+    private findLineFromSuites(problem: ProblemNode) {
+        if (!this.suites) {
+            return -1;
+        }
+
+        const suiteId = [problem.namespace, problem.class]
+            .filter(name => !!name)
+            .join('\\');
+
+        const test = this.suites
+            .where(suite => suite.id === suiteId, true)
+            .reduce(
+                (tests: TestNode[], suite) => tests.concat(suite.children),
+                []
+            )
+            .find(test => test.id === `${suiteId}::${problem.method}`);
+
+        return test ? test.line : -1;
+    }
+}
@@ -0,0 +1,41 @@
+import { TestCase } from './TestResponse';
+
+export class TestDurationCollection {
+    private durations: Map<string, number> = new Map();
+
+    put(id: string, duration: number) {
+        this.durations.set(id, duration);
+
+        return this;
+    }
+
+    putTestCases(testCases: TestCase[]) {
+        testCases.forEach(testCase =>
+            this.put(testCase.id, testCase.time * 1000)
+        );
+
+        return this;
+    }
+
+    get(id: string): number | undefined {
+        return this.durations.get(id);
+    }
+
+    clear() {
+        this.durations.clear();
+
+        return this;
+    }
+
+    slowest(count: number): [string, number][] {
+        return Array.from(this.durations.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, Math.max(count, 0));
+    }
+
+    format(duration: number): string {
+        return duration < 1000
+            ? `${Math.round(duration)} ms`
+            : `${(duration / 1000).toFixed(2)} s`;
+    }
+}
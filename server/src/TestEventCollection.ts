@@ -22,8 +22,14 @@ export class TestEventCollection {
         return this.events.get(id);
     }
 
-    delete(test: TestEventGroup | TestEventGroup) {
-        return this.events.delete(this.asEventId(test));
+    delete(tests: TestEventGroup | TestEventGroup[]) {
+        tests = tests instanceof Array ? tests : [tests];
+
+        return this.asEvents(tests).reduce(
+            (deleted: boolean, event) =>
+                this.events.delete(this.asEventId(event)) || deleted,
+            false
+        );
     }
 
     clear() {
@@ -71,6 +77,12 @@ export class TestEventCollection {
     private nodeAsEvents(test: NodeGroup): (TestSuiteEvent | TestEvent)[] {
         const events: (TestSuiteEvent | TestEvent)[] = [];
 
+        if (test instanceof TestNode && test.dataSets.length > 0) {
+            return events
+                .concat([test.asTestSuiteEvent()])
+                .concat(test.dataSets.map(dataSet => dataSet.asTestEvent()));
+        }
+
         return test instanceof TestSuiteNode
             ? events
                   .concat([test.asTestSuiteEvent()])
@@ -1,4 +1,5 @@
 import URI from 'vscode-uri';
+import { Attribute, AttrGroup, NamedArgument, Node } from 'php-parser';
 import {
     CodeLens,
     Command,
@@ -19,6 +20,9 @@ export interface TestOptions {
     namespace?: string;
     method?: string;
     uri: URI;
+    declaringUri?: URI;
+    declaringClass?: string;
+    groups?: string[];
 }
 
 interface ExportCodeLens {
@@ -28,7 +32,7 @@ interface ExportCodeLens {
 abstract class BaseTestNode {
     [propName: string]: any;
 
-    constructor(private node: any, private options?: TestOptions) {}
+    constructor(protected node: any, protected options?: TestOptions) {}
 
     get workspaceFolder() {
         return this.options && this.options.workspaceFolder
@@ -46,20 +50,54 @@ abstract class BaseTestNode {
             : undefined;
     }
 
+    get declaringFile(): string | undefined {
+        return this.options && this.options.declaringUri
+            ? this.options.declaringUri.toString()
+            : this.file;
+    }
+
+    get declaringClass(): string | undefined {
+        return this.options ? this.options.declaringClass : undefined;
+    }
+
     get line(): number {
         return this.node.loc.start.line - 1;
     }
 
     get depends(): string[] {
-        const comments: any[] = this.node.body.leadingComments || [];
+        return this.getAnnotations('depends').concat(
+            this.getAttributeValues('Depends'),
+            this.getAttributeValues('DependsUsingDeepClone'),
+            this.getAttributeValues('DependsUsingShallowClone')
+        );
+    }
 
-        return comments.reduce((depends: any[], comment: any) => {
-            const matches = (comment.value.match(/@depends\s+[^\n\s]+/g) || [])
-                .map((depend: string) => depend.replace('@depends', '').trim())
-                .filter((depend: string) => !!depend);
+    get dataProviders(): string[] {
+        return this.getAnnotations('dataProvider').concat(
+            this.getAttributeValues('DataProvider')
+        );
+    }
 
-            return depends.concat(matches);
-        }, []);
+    get groups(): string[] {
+        return this.getAnnotations('group')
+            .concat(this.getAttributeValues('Group'))
+            .concat(
+                this.options && this.options.groups ? this.options.groups : []
+            )
+            .filter((group, index, groups) => groups.indexOf(group) === index);
+    }
+
+    get testdox(): string | undefined {
+        const comments = this.getComments();
+        const testdox = comments
+            .map((comment: any) =>
+                comment.value.match(/@testdox\s+([^\n]+?)\s*(\*\/)?$/m)
+            )
+            .filter((matches: any) => !!matches)
+            .map((matches: any) => matches[1])
+            .concat(this.getAttributeValues('TestDox'));
+
+        return testdox.length > 0 ? testdox[0] : undefined;
     }
 
     get kind(): string {
@@ -102,18 +140,32 @@ abstract class BaseTestNode {
         return this.options ? this.options.uri : undefined;
     }
 
+    isInherited(): boolean {
+        return !!this.declaringClass;
+    }
+
     isTest(): boolean {
         return (
             this.acceptModifier() &&
-            (this.acceptComments() || this.acceptMethodName())
+            (this.acceptComments() ||
+                this.acceptAttributes() ||
+                this.acceptMethodName())
         );
     }
 
+    asTestSuiteEvent(): TestSuiteEvent {
+        return {
+            type: 'suite',
+            suite: this.id,
+            state: 'running',
+        };
+    }
+
     asCodeLens(): CodeLens {
         const codeLens = CodeLens.create(this.range);
 
         codeLens.command = {
-            title: 'Run Test',
+            title: this.isInherited() ? `Run Test (${this.class})` : 'Run Test',
             command: 'phpunit.lsp.run-test-at-cursor',
             arguments: [this.workspaceFolder, this.id],
         } as Command;
@@ -121,19 +173,107 @@ abstract class BaseTestNode {
         return codeLens;
     }
 
+    asDebugCodeLens(): CodeLens {
+        const codeLens = CodeLens.create(this.range);
+
+        codeLens.command = {
+            title: this.isInherited()
+                ? `Debug Test (${this.class})`
+                : 'Debug Test',
+            command: 'phpunit.debug-test-at-cursor',
+            arguments: [this.workspaceFolder, this.id],
+        } as Command;
+
+        return codeLens;
+    }
+
+    asCodeLenses(): CodeLens[] {
+        return [this.asCodeLens(), this.asDebugCodeLens()];
+    }
+
     private acceptModifier(): boolean {
         return ['', 'public'].indexOf(this.node.visibility) !== -1;
     }
 
     private acceptComments(): boolean {
-        const comments: any[] = this.node.body.leadingComments || [];
+        const comments = this.getComments();
 
-        return comments.some((comment: any) => /@test/.test(comment.value));
+        return comments.some((comment: any) => /@test\b/.test(comment.value));
+    }
+
+    private acceptAttributes(): boolean {
+        return this.getAttributes('Test').length > 0;
     }
 
     private acceptMethodName(): boolean {
         return /^test/.test(this.node.name.name);
     }
+
+    private getComments(): any[] {
+        return (
+            (this.node.body && this.node.body.leadingComments) ||
+            this.node.leadingComments ||
+            []
+        );
+    }
+
+    private getAnnotations(name: string): string[] {
+        const comments = this.getComments();
+        const pattern = new RegExp(`@${name}\\s+([^\\n\\s*]+)`, 'g');
+
+        return comments.reduce((annotations: string[], comment: any) => {
+            const matches = (comment.value.match(pattern) || [])
+                .map((annotation: string) =>
+                    annotation.replace(`@${name}`, '').trim()
+                )
+                .filter((annotation: string) => !!annotation);
+
+            return annotations.concat(matches);
+        }, []);
+    }
+
+    private getAttributes(name: string): Attribute[] {
+        const attrGroups: AttrGroup[] = this.node.attrGroups || [];
+
+        return attrGroups
+            .reduce(
+                (attributes: Attribute[], group) =>
+                    attributes.concat(group.attrs || []),
+                []
+            )
+            .filter(
+                attribute =>
+                    attribute.name.replace(/^.*\\/, '').toLowerCase() ===
+                    name.toLowerCase()
+            );
+    }
+
+    private getAttributeValues(name: string): string[] {
+        return this.getAttributes(name)
+            .map(attribute => this.asAttributeValue((attribute.args || [])[0]))
+            .filter((value): value is string => !!value);
+    }
+
+    private asAttributeValue(arg?: Node): string | undefined {
+        const node: any =
+            arg && arg.kind === 'namedargument'
+                ? (arg as NamedArgument).value
+                : arg;
+
+        if (!node) {
+            return undefined;
+        }
+
+        if (node.kind === 'string') {
+            return node.value;
+        }
+
+        if (node.kind === 'staticlookup' && node.what && node.what.name) {
+            return node.what.name.replace(/^\\/, '');
+        }
+
+        return undefined;
+    }
 }
 
 export class TestSuiteNode extends BaseTestNode
@@ -153,26 +293,23 @@ export class TestSuiteNode extends BaseTestNode
     }
 
     get label(): string {
-        return this.qualifiedClassName || '';
-    }
-
-    asTestSuiteEvent(): TestSuiteEvent {
-        return {
-            type: 'suite',
-            suite: this.id,
-            state: 'running',
-        };
+        return this.testdox || this.qualifiedClassName || '';
     }
 
     exportCodeLens(): CodeLens[] {
-        return [this.asCodeLens()].concat(
-            this.children.map(test => test.asCodeLens())
-        );
+        return this.children
+            .filter(test => !test.isInherited())
+            .reduce(
+                (codeLens: CodeLens[], test) =>
+                    codeLens.concat(test.asCodeLenses()),
+                this.asCodeLenses()
+            );
     }
 }
 
 export class TestNode extends BaseTestNode implements TestInfo {
     type: 'test' = 'test';
+    dataSets: DataSetNode[] = [];
 
     constructor(node: any, options?: TestOptions) {
         super(node, options);
@@ -183,7 +320,21 @@ export class TestNode extends BaseTestNode implements TestInfo {
     }
 
     get label(): string {
-        return this.method;
+        return this.testdox || this.method;
+    }
+
+    hasDataSet(dataSet: string): boolean {
+        return this.dataSets.some(node => node.dataSet === dataSet);
+    }
+
+    putDataSet(dataSet: string) {
+        if (!this.hasDataSet(dataSet)) {
+            this.dataSets.push(
+                new DataSetNode(this.node, dataSet, this.options)
+            );
+        }
+
+        return this;
     }
 
     asTestEvent(): TestEvent {
@@ -194,3 +345,17 @@ export class TestNode extends BaseTestNode implements TestInfo {
         };
     }
 }
+
+export class DataSetNode extends TestNode {
+    constructor(node: any, public dataSet: string, options?: TestOptions) {
+        super(node, options);
+    }
+
+    get id(): string {
+        return `${super.id} with data set ${this.dataSet}`;
+    }
+
+    get label(): string {
+        return `with data set ${this.dataSet}`;
+    }
+}
@@ -0,0 +1,140 @@
+import { ServiceMessage, TeamcityParser } from './TeamcityParser';
+import { TestEvent } from './TestExplorer';
+
+export interface TestProgressResult {
+    total: number;
+    completed: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+}
+
+export class TestProgress implements TestProgressResult {
+    total = 0;
+    completed = 0;
+    passed = 0;
+    failed = 0;
+    skipped = 0;
+
+    private running: Map<string, TestEvent> = new Map();
+    private durations: Map<string, number> = new Map();
+
+    constructor(private parser = new TeamcityParser()) {}
+
+    reset() {
+        this.total = 0;
+        this.completed = 0;
+        this.passed = 0;
+        this.failed = 0;
+        this.skipped = 0;
+        this.running.clear();
+        this.durations.clear();
+
+        return this;
+    }
+
+    put(line: string): TestEvent | undefined {
+        const message = this.parser.parse(line);
+
+        if (!message) {
+            return undefined;
+        }
+
+        switch (message.name) {
+            case 'testCount':
+                this.total += parseInt(message.attributes.count, 10) || 0;
+                break;
+            case 'testStarted':
+                this.start(message);
+                break;
+            case 'testFailed':
+                this.update(message, 'failed');
+                break;
+            case 'testIgnored':
+                this.update(message, 'skipped');
+                break;
+            case 'testFinished':
+                return this.finish(message);
+        }
+
+        return undefined;
+    }
+
+    getDuration(id: string): number | undefined {
+        return this.durations.get(id);
+    }
+
+    toJSON(): TestProgressResult {
+        return {
+            total: this.total,
+            completed: this.completed,
+            passed: this.passed,
+            failed: this.failed,
+            skipped: this.skipped,
+        };
+    }
+
+    private start(message: ServiceMessage) {
+        this.running.set(message.attributes.name, {
+            type: 'test',
+            test: this.asTestId(message),
+            state: 'passed',
+        });
+    }
+
+    private update(message: ServiceMessage, state: TestEvent['state']) {
+        const event = this.running.get(message.attributes.name);
+
+        if (event) {
+            event.state = state;
+            event.message = [
+                message.attributes.message,
+                message.attributes.details,
+            ]
+                .filter(text => !!text)
+                .join('\n');
+        }
+    }
+
+    private finish(message: ServiceMessage) {
+        const event = this.running.get(message.attributes.name);
+
+        if (!event) {
+            return undefined;
+        }
+
+        this.running.delete(message.attributes.name);
+        this.completed++;
+
+        const duration = parseInt(message.attributes.duration, 10);
+        if (!isNaN(duration)) {
+            this.durations.set(event.test as string, duration);
+        }
+
+        if (event.state === 'passed') {
+            this.passed++;
+        } else if (event.state === 'skipped') {
+            this.skipped++;
+        } else {
+            this.failed++;
+        }
+
+        return event;
+    }
+
+    private asTestId(message: ServiceMessage) {
+        const locationHint = (message.attributes.locationHint || '').replace(
+            /^php_qn:\/\//,
+            ''
+        );
+        const [, qualifiedClassName, ...method] = locationHint.split('::');
+
+        if (!qualifiedClassName) {
+            return message.attributes.name;
+        }
+
+        return [qualifiedClassName.replace(/^\\/, ''), method.join('::')].join(
+            '::'
+        );
+    }
+}
@@ -1,6 +1,10 @@
+import he from 'he';
 import stripAnsi from 'strip-ansi';
-import { ProblemMatcher } from './ProblemMatcher';
-import { ProblemNode } from './ProblemNode';
+import { Location, ProblemNode, states, Status } from './ProblemNode';
+import { parse } from 'fast-xml-parser';
+import { IProblemMatcher } from './ProblemMatcher';
+import { TeamcityParser } from './TeamcityParser';
+import { TestEvent } from './TestExplorer';
 
 export interface TestResult {
     [index: string]: number | undefined;
@@ -14,9 +18,16 @@ export interface TestResult {
     risky?: number;
 }
 
+export interface TestCase {
+    id: string;
+    state: TestEvent['state'];
+    time: number;
+}
+
 export interface ITestResponse {
     asProblems: () => Promise<ProblemNode[]>;
     getTestResult: () => TestResult;
+    getTestCases: () => TestCase[];
     toString: () => string;
 }
 
@@ -40,19 +51,29 @@ export class FailedTestResponse implements ITestResponse {
         };
     }
 
+    getTestCases(): TestCase[] {
+        return [];
+    }
+
     toString(): string {
         return this.output;
     }
 }
 
 export class TestResponse implements ITestResponse {
+    private raw: string;
     private output: string;
-    constructor(output: string, private problemMatcher: ProblemMatcher) {
-        this.output = stripAnsi(output);
+    constructor(
+        output: string,
+        private problemMatcher: IProblemMatcher,
+        parser = new TeamcityParser()
+    ) {
+        this.raw = stripAnsi(output);
+        this.output = parser.strip(this.raw);
     }
 
     async asProblems(): Promise<ProblemNode[]> {
-        return await this.problemMatcher.parse(this.output);
+        return await this.problemMatcher.parse(this.raw);
     }
 
     getTestResult() {
@@ -141,7 +162,243 @@ export class TestResponse implements ITestResponse {
         return result;
     }
 
+    getTestCases(): TestCase[] {
+        return [];
+    }
+
+    toString(): string {
+        return this.output;
+    }
+}
+
+export class JUnitTestResponse implements ITestResponse {
+    private output: string;
+    private testSuite: any;
+    private testCases: any[];
+
+    constructor(xml: string, output = '', parser = new TeamcityParser()) {
+        const testSuites =
+            parse(xml, {
+                ignoreAttributes: false,
+                attributeNamePrefix: '',
+                textNodeName: '#text',
+                parseNodeValue: false,
+                parseAttributeValue: false,
+                tagValueProcessor: (value: string) => he.decode(value),
+                attrValueProcessor: (value: string) => he.decode(value),
+            }).testsuites || {};
+
+        this.output = parser.strip(stripAnsi(output));
+        this.testSuite = this.asArray(testSuites.testsuite)[0] || {};
+        this.testCases = this.flatten(this.testSuite);
+    }
+
+    async asProblems(): Promise<ProblemNode[]> {
+        return this.testCases
+            .map(testCase => ({ testCase, status: this.asStatus(testCase) }))
+            .filter(({ status }) => status !== Status.PASSED)
+            .map(({ testCase, status }) => this.asProblem(testCase, status));
+    }
+
+    getTestResult(): TestResult {
+        const count = (name: string) => parseInt(this.testSuite[name], 10) || 0;
+        const statuses = this.testCases.map(testCase =>
+            this.asStatus(testCase)
+        );
+
+        return {
+            tests: count('tests'),
+            assertions: count('assertions'),
+            errors: count('errors'),
+            failures: count('failures'),
+            warnings: count('warnings'),
+            skipped: count('skipped'),
+            incomplete: 0,
+            risky: statuses.filter(status => status === Status.RISKY).length,
+        };
+    }
+
+    getTestCases(): TestCase[] {
+        return this.testCases.map(testCase => ({
+            id: this.asId(testCase),
+            state: states.get(this.asStatus(testCase)) as TestEvent['state'],
+            time: parseFloat(testCase.time) || 0,
+        }));
+    }
+
     toString(): string {
         return this.output;
     }
+
+    private asProblem(testCase: any, status: Status) {
+        const qualifiedClassName = this.asQualifiedClassName(testCase);
+        const lastIndexOfSlash = qualifiedClassName.lastIndexOf('\\');
+        const [, method, dataSet] = (testCase.name || '').match(
+            /^(.*?)(?: with data set (#\d+|".*"))?$/
+        );
+        const [message, files] = this.parseDetails(
+            testCase,
+            this.asDetails(testCase, status)
+        );
+        const location = files
+            .slice()
+            .reverse()
+            .find(location => location.file === testCase.file);
+
+        const problem = Object.assign(new ProblemNode(), {
+            namespace: qualifiedClassName.substr(
+                0,
+                Math.max(lastIndexOfSlash, 0)
+            ),
+            class: qualifiedClassName.substr(lastIndexOfSlash + 1),
+            method,
+            dataSet: dataSet || '',
+            status,
+            file: location ? location.file : testCase.file || '',
+            line: location
+                ? location.line
+                : (parseInt(testCase.line, 10) || 0) - 1,
+            message,
+            files: files.filter(file => file !== location),
+        });
+
+        return problem.updateId().updateComparison();
+    }
+
+    private parseDetails(testCase: any, details: string): [string, Location[]] {
+        const lines = details.split(/\r\n|\r|\n/g);
+        const files: Location[] = [];
+        let message = '';
+
+        if (lines.length > 0 && lines[0].indexOf(this.asId(testCase)) === 0) {
+            lines.shift();
+        }
+
+        for (const line of lines) {
+            const matches = line.match(/^(.*):(\d+)$/);
+
+            if (matches) {
+                files.push({
+                    file: matches[1],
+                    line: parseInt(matches[2], 10) - 1,
+                });
+            } else if (line.trim()) {
+                message += `${line}\n`;
+            }
+        }
+
+        return [message, files];
+    }
+
+    private asDetails(testCase: any, status: Status): string {
+        const node = ['failure', 'error', 'warning', 'skipped']
+            .map(name => testCase[name])
+            .find(node => node !== undefined);
+        const details = this.textOf(node);
+
+        if (details || status !== Status.SKIPPED) {
+            return details;
+        }
+
+        return 'Skipped Test';
+    }
+
+    private asStatus(testCase: any): Status {
+        if (testCase.failure !== undefined) {
+            return Status.FAILURE;
+        }
+
+        if (testCase.error !== undefined) {
+            return /Risky/.test(this.attributeOf(testCase.error, 'type'))
+                ? Status.RISKY
+                : Status.ERROR;
+        }
+
+        if (testCase.warning !== undefined) {
+            return Status.WARNING;
+        }
+
+        if (testCase.skipped !== undefined) {
+            return Status.SKIPPED;
+        }
+
+        return Status.PASSED;
+    }
+
+    private asId(testCase: any) {
+        return `${this.asQualifiedClassName(testCase)}::${testCase.name}`;
+    }
+
+    private asQualifiedClassName(testCase: any): string {
+        return (
+            testCase.class || (testCase.classname || '').replace(/\./g, '\\')
+        );
+    }
+
+    private flatten(testSuite: any): any[] {
+        return this.asArray(testSuite.testsuite).reduce(
+            (testCases: any[], child: any) =>
+                testCases.concat(this.flatten(child)),
+            this.asArray(testSuite.testcase)
+        );
+    }
+
+    private attributeOf(node: any, name: string): string {
+        return node && typeof node === 'object' ? node[name] || '' : '';
+    }
+
+    private textOf(node: any): string {
+        if (!node) {
+            return '';
+        }
+
+        return (typeof node === 'string' ? node : node['#text'] || '').trim();
+    }
+
+    private asArray(node: any): any[] {
+        if (node === undefined || node === null || node === '') {
+            return [];
+        }
+
+        return node instanceof Array ? node : [node];
+    }
+}
+
+export class AggregateTestResponse implements ITestResponse {
+    constructor(private responses: ITestResponse[]) {}
+
+    async asProblems(): Promise<ProblemNode[]> {
+        const problems = await Promise.all(
+            this.responses.map(response => response.asProblems())
+        );
+
+        return problems.reduce(
+            (all: ProblemNode[], problems) => all.concat(problems),
+            []
+        );
+    }
+
+    getTestResult(): TestResult {
+        return this.responses.reduce((result: TestResult, response) => {
+            const testResult = response.getTestResult();
+
+            Object.keys(testResult).forEach(key => {
+                result[key] = (result[key] || 0) + (testResult[key] || 0);
+            });
+
+            return result;
+        }, {});
+    }
+
+    getTestCases(): TestCase[] {
+        return this.responses.reduce(
+            (testCases: TestCase[], response) =>
+                testCases.concat(response.getTestCases()),
+            []
+        );
+    }
+
+    toString(): string {
+        return this.responses.map(response => response.toString()).join('\n');
+    }
 }
@@ -0,0 +1,107 @@
+import files from './Filesystem';
+import URI from 'vscode-uri';
+import { HashedFile, HashedFileCollection } from './HashedFileCollection';
+import { PathLike } from 'fs';
+import { Problem, ProblemNode } from './ProblemNode';
+import { TestEvent } from './TestExplorer';
+
+interface CachedFile extends HashedFile {
+    events: { [id: string]: TestEvent };
+    problems: { [id: string]: Problem };
+}
+
+export class TestResultCache {
+    constructor(
+        private _files = files,
+        private results = new HashedFileCollection<CachedFile>(_files)
+    ) {}
+
+    async load(uri: PathLike | URI) {
+        await this.results.load(uri);
+
+        return this;
+    }
+
+    async save(uri: PathLike | URI) {
+        return await this.results.save(uri);
+    }
+
+    async put(
+        file: string,
+        events: TestEvent[],
+        problems: ProblemNode[],
+        dependencies: string[] = []
+    ) {
+        const cached = await this.results.put(file, dependencies, () => ({
+            events: {},
+            problems: {},
+        }));
+
+        events.forEach(event => {
+            const id = event.test as string;
+
+            cached.events[id] = event;
+            Object.keys(cached.problems)
+                .filter(key => this.isSameTest(key, id))
+                .forEach(key => delete cached.problems[key]);
+        });
+
+        problems.forEach(problem => {
+            cached.problems[problem.id] = this.asProblem(problem);
+        });
+
+        return this;
+    }
+
+    async restore() {
+        const events: TestEvent[] = [];
+        const problems: ProblemNode[] = [];
+
+        for (const file of this.results.files()) {
+            if (await this.results.isChanged(file)) {
+                this.results.delete(file);
+                continue;
+            }
+
+            const cached = this.results.get(file)!;
+
+            events.push(
+                ...Object.keys(cached.events).map(id => cached.events[id])
+            );
+            problems.push(
+                ...Object.keys(cached.problems).map(id =>
+                    Object.assign(
+                        new ProblemNode(this._files),
+                        cached.problems[id]
+                    )
+                )
+            );
+        }
+
+        return { events, problems };
+    }
+
+    private asProblem(problem: ProblemNode): Problem {
+        return {
+            type: problem.type,
+            id: problem.id,
+            namespace: problem.namespace,
+            class: problem.class,
+            method: problem.method,
+            dataSet: problem.dataSet,
+            status: problem.status,
+            file: problem.file,
+            line: problem.line,
+            message: problem.message,
+            files: problem.files,
+            expected: problem.expected,
+            actual: problem.actual,
+        };
+    }
+
+    private isSameTest(problemId: string, id: string) {
+        return (
+            problemId === id || problemId.indexOf(`${id} with data set `) === 0
+        );
+    }
+}
@@ -0,0 +1,117 @@
+import files from './Filesystem';
+import URI from 'vscode-uri';
+import { HashedFile, HashedFileCollection } from './HashedFileCollection';
+import { PathLike } from 'fs';
+import { TestEvent } from './TestExplorer';
+
+type Outcome = 'passed' | 'failed';
+
+// a single fix (failed then passed) is not flakiness, it takes a round trip
+const minimumRuns = 4;
+const minimumFlips = 2;
+
+interface FileHistory extends HashedFile {
+    tests: { [id: string]: Outcome[] };
+}
+
+export interface FlakyTest {
+    id: string;
+    file: string;
+    runs: number;
+    failures: number;
+    score: number;
+}
+
+export class TestRunHistory {
+    constructor(
+        _files = files,
+        private history = new HashedFileCollection<FileHistory>(_files)
+    ) {}
+
+    async load(uri: PathLike | URI) {
+        await this.history.load(uri);
+
+        return this;
+    }
+
+    async save(uri: PathLike | URI) {
+        return await this.history.save(uri);
+    }
+
+    async put(
+        file: string,
+        events: TestEvent[],
+        size: number,
+        dependencies: string[] = []
+    ) {
+        const history = await this.history.put(file, dependencies, () => ({
+            tests: {},
+        }));
+
+        events.forEach(event => {
+            const outcome = this.asOutcome(event);
+
+            if (!outcome) {
+                return;
+            }
+
+            const id = event.test as string;
+            history.tests[id] = (history.tests[id] || [])
+                .concat(outcome)
+                .slice(-Math.max(size, 1));
+        });
+
+        return this;
+    }
+
+    get(id: string): FlakyTest | undefined {
+        const file = this.history
+            .files()
+            .find(file => !!this.history.get(file)!.tests[id]);
+
+        return file ? this.asFlakyTest(id, file) : undefined;
+    }
+
+    flaky(): FlakyTest[] {
+        return this.history
+            .files()
+            .reduce(
+                (tests: FlakyTest[], file) =>
+                    tests.concat(
+                        Object.keys(this.history.get(file)!.tests).map(id =>
+                            this.asFlakyTest(id, file)
+                        )
+                    ),
+                []
+            )
+            .filter(test => test.score > 0)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    private asFlakyTest(id: string, file: string): FlakyTest {
+        const outcomes = this.history.get(file)!.tests[id];
+        const flips = outcomes.filter(
+            (outcome, index) => index > 0 && outcome !== outcomes[index - 1]
+        ).length;
+
+        const isFlaky = outcomes.length >= minimumRuns && flips >= minimumFlips;
+
+        return {
+            id,
+            file,
+            runs: outcomes.length,
+            failures: outcomes.filter(outcome => outcome === 'failed').length,
+            score: isFlaky ? flips / (outcomes.length - 1) : 0,
+        };
+    }
+
+    private asOutcome(event: TestEvent): Outcome | undefined {
+        if (event.state === 'passed') {
+            return 'passed';
+        }
+
+        return ['failed', 'errored'].includes(event.state)
+            ? 'failed'
+            : undefined;
+    }
+}
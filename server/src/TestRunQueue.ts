@@ -0,0 +1,133 @@
+import { TestRunner } from './TestRunner';
+
+export type RunMode = 'queue' | 'replace' | 'concurrent';
+
+export interface TestRun {
+    id: number;
+    testRunner: TestRunner;
+}
+
+export class TestRunQueue {
+    private sequence = 0;
+    private idle: TestRunner[] = [];
+    private active: Map<number, TestRun> = new Map();
+    private pending: Set<number> = new Set();
+    private busy: Map<TestRunner, Promise<void>> = new Map();
+    private listeners: ((line: string, id?: number) => void)[] = [];
+    private tail: Promise<void> = Promise.resolve();
+    private last?: TestRun;
+
+    constructor(
+        testRunner: TestRunner,
+        private createRunner = () => new TestRunner()
+    ) {
+        this.idle.push(testRunner);
+    }
+
+    onOutput(listener: (line: string, id?: number) => void) {
+        this.listeners.push(listener);
+        this.idle.forEach(testRunner => this.listen(testRunner, listener));
+
+        return this;
+    }
+
+    async run<T>(
+        mode: RunMode,
+        callback: (testRunner: TestRunner, id: number) => Promise<T>,
+        preferred?: TestRunner
+    ): Promise<T | undefined> {
+        if (mode === 'replace') {
+            this.cancel();
+        }
+
+        const id = ++this.sequence;
+        const previous =
+            mode === 'concurrent'
+                ? (preferred && this.busy.get(preferred)) || Promise.resolve()
+                : this.tail;
+
+        let release!: () => void;
+        const done = new Promise<void>(resolve => (release = resolve));
+        this.tail = Promise.all([this.tail, done]).then(() => undefined);
+        this.pending.add(id);
+
+        await previous;
+
+        if (!this.pending.delete(id)) {
+            release();
+
+            return undefined;
+        }
+
+        const testRunner = this.acquire(preferred);
+        const run = { id, testRunner };
+
+        this.active.set(id, run);
+        this.busy.set(testRunner, done);
+        this.last = run;
+
+        try {
+            return await callback(testRunner, id);
+        } finally {
+            this.active.delete(id);
+            this.busy.delete(testRunner);
+            this.idle.push(testRunner);
+            release();
+        }
+    }
+
+    cancel(id?: number): boolean {
+        const ids =
+            id === undefined
+                ? Array.from(this.pending).concat(
+                      Array.from(this.active.keys())
+                  )
+                : [id];
+
+        return ids
+            .map(id => {
+                const run = this.active.get(id);
+
+                return (
+                    this.pending.delete(id) ||
+                    (!!run && run.testRunner.cancel())
+                );
+            })
+            .some(cancelled => cancelled);
+    }
+
+    lastRunner(): TestRunner | undefined {
+        return this.last ? this.last.testRunner : undefined;
+    }
+
+    private acquire(preferred?: TestRunner) {
+        const index = preferred ? this.idle.indexOf(preferred) : -1;
+
+        if (index !== -1) {
+            return this.idle.splice(index, 1)[0];
+        }
+
+        const testRunner = this.idle.pop();
+        if (testRunner) {
+            return testRunner;
+        }
+
+        return this.listeners.reduce(
+            (testRunner, listener) => this.listen(testRunner, listener),
+            this.createRunner()
+        );
+    }
+
+    private listen(
+        testRunner: TestRunner,
+        listener: (line: string, id?: number) => void
+    ) {
+        return testRunner.onOutput(line => {
+            const run = Array.from(this.active.values()).find(
+                run => run.testRunner === testRunner
+            );
+
+            listener(line, run ? run.id : undefined);
+        });
+    }
+}
@@ -1,30 +1,76 @@
 import files from './Filesystem';
 import URI from 'vscode-uri';
 import { Command } from 'vscode-languageserver-protocol';
+import { basename, dirname, join, posix, resolve } from 'path';
 import { PathLike } from 'fs';
+import { PathMapping, PathMappingEntry } from './PathMapping';
+import { PhpUnitXml } from './PhpUnitXml';
 import { Process } from './Process';
 import { SpawnOptions } from 'child_process';
+import { tmpdir } from 'os';
 
 export interface Params {
     file?: PathLike | URI;
     method?: string;
+    // qualified as Namespace\Class::method, with its data set if any
+    methods?: string[];
+    dataSet?: string;
     depends?: string[];
+    testsuite?: string;
+    groups?: string[];
+    excludeGroups?: string[];
+}
+
+export interface DockerOptions {
+    binary?: string;
+    container?: string;
+    service?: string;
+    workdir?: string;
+}
+
+export interface SshOptions {
+    binary?: string;
+    host?: string;
+    user?: string;
+    port?: number;
+    identity?: string;
+    root?: string;
 }
 
 export class TestRunner {
     private phpBinary = '';
     private phpUnitBinary = '';
     private args: string[] = [];
+    private excludeGroups: string[] = [];
     private lastArgs: string[] = [];
     private lastOutput: string = '';
+    private lastJUnitLog: string = '';
+    private lastCoverage: string = '';
     private relativeFilePath: boolean = false;
+    private streamResults: boolean = false;
+    private teamcity: boolean = false;
+    private logJUnit: boolean = false;
+    private coverage: boolean = false;
+    private debug: boolean = false;
+    private paraTest: boolean = false;
+    private processes: number = 0;
+    private shard: number = 0;
+    private xdebugPort: number = 9003;
+    private docker: DockerOptions = {};
+    private ssh: SshOptions = {};
+    private pathMappings: PathMappingEntry[] = [];
+    private pathMapping = new PathMapping();
     private lastCommand: Command = {
         title: '',
         command: '',
         arguments: [],
     };
 
-    constructor(private process = new Process(), private _files = files) { }
+    constructor(
+        private process = new Process(),
+        private _files = files,
+        private phpUnitXml = new PhpUnitXml(_files)
+    ) { }
 
     setPhpBinary(phpBinary: PathLike | URI | undefined) {
         this.phpBinary = phpBinary ? this._files.asUri(phpBinary).fsPath : '';
@@ -46,12 +92,96 @@ export class TestRunner {
         return this;
     }
 
+    setExcludeGroups(excludeGroups: string[] | undefined) {
+        this.excludeGroups = excludeGroups || [];
+
+        return this;
+    }
+
     setRelativeFilePath(relativeFilePath: boolean) {
         this.relativeFilePath = relativeFilePath;
 
         return this;
     }
 
+    setStreamResults(streamResults: boolean) {
+        this.streamResults = streamResults;
+
+        return this;
+    }
+
+    setTeamcity(teamcity: boolean) {
+        this.teamcity = teamcity;
+
+        return this;
+    }
+
+    setLogJUnit(logJUnit: boolean) {
+        this.logJUnit = logJUnit;
+
+        return this;
+    }
+
+    setCoverage(coverage: boolean) {
+        this.coverage = coverage;
+
+        return this;
+    }
+
+    setParaTest(paraTest: boolean) {
+        this.paraTest = paraTest;
+
+        return this;
+    }
+
+    setProcesses(processes: number) {
+        this.processes = processes;
+
+        return this;
+    }
+
+    setShard(shard: number) {
+        this.shard = shard;
+
+        return this;
+    }
+
+    setDebug(debug: boolean) {
+        this.debug = debug;
+
+        return this;
+    }
+
+    setXdebugPort(xdebugPort: number) {
+        this.xdebugPort = xdebugPort;
+
+        return this;
+    }
+
+    setDocker(docker: DockerOptions | undefined) {
+        this.docker = docker || {};
+
+        return this;
+    }
+
+    setSsh(ssh: SshOptions | undefined) {
+        this.ssh = ssh || {};
+
+        return this;
+    }
+
+    setPathMappings(pathMappings: PathMappingEntry[] | undefined) {
+        this.pathMappings = pathMappings || [];
+
+        return this;
+    }
+
+    onOutput(listener: (line: string) => void) {
+        this.process.onLine(line => listener(this.pathMapping.toLocal(line)));
+
+        return this;
+    }
+
     async rerun(p?: Params, options?: SpawnOptions) {
         if (p && this.lastArgs.length === 0) {
             return await this.run(p, options);
@@ -69,24 +199,51 @@ export class TestRunner {
         const deps: string[] = [];
 
         if (p.method) {
-            deps.push(p.method);
+            deps.push(
+                p.dataSet
+                    ? this.escapeRegExp(`${p.method} with data set ${p.dataSet}`)
+                    : p.method
+            );
         }
 
         if (p.depends) {
             deps.push(...p.depends);
         }
 
-        if (deps.length > 0) {
+        const methods = (p.methods || []).map(method =>
+            this.escapeRegExp(method)
+        );
+        const filter =
+            deps.length > 0
+                ? `^.*::(${deps.join('|')})`
+                : methods.length > 0
+                ? `^(${methods.join('|')})`
+                : '';
+
+        if (filter) {
             params.push('--filter');
-            let filter = `/^.*::${deps.join('|')}.*$/`;
-            if (options && options.shell) {
-                if (process.platform === 'win32') {
-                    filter = `"${filter}"`;
-                } else {
-                    filter = `'${filter}'`;
-                }
-            }
-            params.push(filter);
+            params.push(this.quote(`${filter}( with data set .*)?$`, options));
+        }
+
+        if (p.testsuite) {
+            params.push('--testsuite');
+            params.push(this.quote(p.testsuite, options));
+        }
+
+        const groups = p.groups || [];
+        const excludeGroups = (p.excludeGroups || [])
+            .concat(p.method || p.methods ? [] : this.excludeGroups)
+            .filter(group => !groups.includes(group))
+            .filter((group, index, items) => items.indexOf(group) === index);
+
+        if (groups.length > 0) {
+            params.push('--group');
+            params.push(this.quote(groups.join(','), options));
+        }
+
+        if (excludeGroups.length > 0) {
+            params.push('--exclude-group');
+            params.push(this.quote(excludeGroups.join(','), options));
         }
 
         if (p.file) {
@@ -101,21 +258,98 @@ export class TestRunner {
     }
 
     async doRun(args: string[] = [], options?: SpawnOptions) {
+        let logDirectory = '';
+
         try {
             this.lastArgs = args;
-            this.lastCommand = await this.toCommand(args, options);
-            this.lastOutput = await this.process.run(this.lastCommand, options);
+            this.lastJUnitLog = '';
+            this.lastCoverage = '';
+            logDirectory = await this.createLogDirectory();
+
+            const junitLog = this.logJUnit
+                ? this.getLogFile(logDirectory, 'xml')
+                : '';
+            const coverage = this.coverage
+                ? this.getLogFile(logDirectory, 'clover.xml')
+                : '';
+
+            this.pathMapping = this.createPathMapping(options);
+            this.lastCommand = await this.toCommand(
+                args,
+                options,
+                junitLog,
+                coverage
+            );
+
+            if (junitLog) {
+                await this._files.unlink(junitLog);
+            }
+
+            if (coverage) {
+                await this._files.unlink(coverage);
+            }
+
+            const configuredCoverage = coverage
+                ? ''
+                : await this.getConfiguredCoverage(options);
+            const previousCoverage = await this.readFile(configuredCoverage);
+
+            this.lastOutput = this.pathMapping.toLocal(
+                await this.process.run(
+                    this.lastCommand,
+                    this.getSpawnOptions(options)
+                )
+            );
+
+            if (junitLog) {
+                this.lastJUnitLog = this.pathMapping.toLocal(
+                    await this.readLog(junitLog, options)
+                );
+            }
+
+            if (coverage) {
+                this.lastCoverage = this.pathMapping.toLocal(
+                    await this.readLog(coverage, options)
+                );
+            } else if (configuredCoverage) {
+                const contents = await this.readFile(configuredCoverage);
+                this.lastCoverage =
+                    contents !== previousCoverage
+                        ? this.pathMapping.toLocal(contents)
+                        : '';
+            }
 
             return 0;
         } catch (e) {
+            if (e instanceof Error) {
+                // reported like a process that failed to spawn
+                this.lastOutput = e.message;
+            }
+
             return 1;
+        } finally {
+            await this.removeLogDirectory(logDirectory);
         }
     }
 
+    async getTestSuites(options?: SpawnOptions): Promise<string[]> {
+        return (await this.phpUnitXml.load(options))
+            .getTestSuites()
+            .map(testSuite => testSuite.name);
+    }
+
     getOutput() {
         return this.lastOutput;
     }
 
+    getJUnitLog() {
+        return this.lastJUnitLog;
+    }
+
+    getCoverage() {
+        return this.lastCoverage;
+    }
+
     getCommand() {
         return this.lastCommand;
     }
@@ -123,6 +357,8 @@ export class TestRunner {
     cancel(): boolean {
         const killed = this.process.kill();
         this.lastOutput = '';
+        this.lastJUnitLog = '';
+        this.lastCoverage = '';
         this.lastCommand = {
             title: '',
             command: '',
@@ -134,7 +370,9 @@ export class TestRunner {
 
     private async toCommand(
         args: string[],
-        spawnOptions?: SpawnOptions
+        spawnOptions?: SpawnOptions,
+        junitLog = '',
+        coverage = ''
     ): Promise<Command> {
         let params = [];
 
@@ -144,24 +382,72 @@ export class TestRunner {
             this.getPhpUnitXml(spawnOptions),
         ]);
 
-        if (phpBinary) {
-            params.push(phpBinary);
+        if (phpBinary || this.debug) {
+            params.push(phpBinary || 'php');
+        }
+
+        if (this.debug) {
+            params.push(...this.getXdebugFlags());
         }
 
-        if (phpUnitBinary) {
+        const paraTestBinary = this.isParallel()
+            ? await this.getParaTestBinary(spawnOptions)
+            : '';
+
+        if (paraTestBinary) {
+            params.push(paraTestBinary);
+        } else if (phpUnitBinary) {
             params.push(phpUnitBinary);
         }
 
-        const hasConfiguration = this.args.some((arg: string) =>
-            ['-c', '--configuration'].some(key => arg.indexOf(key) !== -1)
-        );
+        if (paraTestBinary && this.processes > 0) {
+            params.push('--processes');
+            params.push(`${this.processes}`);
+        }
 
-        if (!hasConfiguration && phpUnitXml) {
+        if (!this.hasConfiguration() && phpUnitXml) {
             params.push('-c');
             params.push(phpUnitXml);
         }
 
+        if (this.teamcity) {
+            params.push('--teamcity');
+        } else if (this.streamResults) {
+            params.push('--log-teamcity');
+            params.push('php://stderr');
+        }
+
+        if (junitLog) {
+            params.push('--log-junit');
+            params.push(this.toRemoteLog(junitLog));
+        }
+
+        if (coverage) {
+            params.push('--coverage-clover');
+            params.push(this.toRemoteLog(coverage));
+        }
+
         params = params.concat(this.args, args).filter(arg => !!arg);
+        params = this.isRemote()
+            ? params.map(param => this.pathMapping.toRemote(param))
+            : params
+                  .slice(0, 1)
+                  .concat(
+                      params
+                          .slice(1)
+                          .map(param => this.pathMapping.toRemote(param))
+                  );
+
+        if (this.isDocker()) {
+            params = this.asDockerCommand(
+                params,
+                spawnOptions,
+                this.debug,
+                junitLog || coverage ? dirname(junitLog || coverage) : ''
+            );
+        } else if (this.isSsh()) {
+            params = this.asSshCommand(params, spawnOptions, this.debug);
+        }
 
         return {
             title: 'PHPUnit LSP',
@@ -170,6 +456,257 @@ export class TestRunner {
         };
     }
 
+    private isParallel() {
+        return this.paraTest && !this.debug;
+    }
+
+    private isDocker() {
+        return !!(this.docker.container || this.docker.service);
+    }
+
+    private isSsh() {
+        return !!this.ssh.host;
+    }
+
+    private isRemote() {
+        return this.isDocker() || this.isSsh();
+    }
+
+    private asDockerCommand(
+        params: string[],
+        spawnOptions?: SpawnOptions,
+        debug = false,
+        logDirectory = ''
+    ) {
+        const workdir = this.getRemoteRoot(spawnOptions);
+        const options = (debug
+            ? ['-e', 'XDEBUG_MODE', '-e', 'XDEBUG_CONFIG']
+            : []
+        ).concat(workdir ? ['-w', workdir] : []);
+
+        const command = this.docker.container
+            ? ['exec', '-i', ...options, this.docker.container]
+            : [
+                  'compose',
+                  'run',
+                  '--rm',
+                  '-T',
+                  ...options,
+                  ...(logDirectory
+                      ? [
+                            '-v',
+                            `${logDirectory}:${posix.join(
+                                '/tmp',
+                                basename(logDirectory)
+                            )}`,
+                        ]
+                      : []),
+                  this.docker.service!,
+              ];
+
+        return [this.docker.binary || 'docker'].concat(command, params);
+    }
+
+    private asSshCommand(
+        params: string[],
+        spawnOptions?: SpawnOptions,
+        debug = false
+    ) {
+        const root = this.getRemoteRoot(spawnOptions);
+        const env = debug
+            ? [
+                  'XDEBUG_MODE=debug',
+                  `XDEBUG_CONFIG=${this.shellQuote(
+                      `idekey=VSCODE client_port=${this.xdebugPort} remote_port=${this.xdebugPort}`
+                  )}`,
+              ]
+            : [];
+        const command = (root ? ['cd', this.shellQuote(root), '&&'] : [])
+            .concat(env)
+            .concat(params.map(param => this.shellQuote(param)))
+            .join(' ');
+
+        return [this.ssh.binary || 'ssh']
+            .concat(this.ssh.port ? ['-p', `${this.ssh.port}`] : [])
+            .concat(this.ssh.identity ? ['-i', this.ssh.identity] : [])
+            .concat(
+                debug
+                    ? ['-R', `${this.xdebugPort}:localhost:${this.xdebugPort}`]
+                    : []
+            )
+            .concat(
+                this.ssh.user
+                    ? `${this.ssh.user}@${this.ssh.host}`
+                    : this.ssh.host!,
+                command
+            );
+    }
+
+    private shellQuote(value: string) {
+        return /^[\w@%+=:,./-]+$/.test(value)
+            ? value
+            : `'${value.replace(/'/g, `'\\''`)}'`;
+    }
+
+    private getRemoteRoot(spawnOptions?: SpawnOptions) {
+        const root = this.isDocker() ? this.docker.workdir : this.ssh.root;
+
+        return (
+            root || (spawnOptions && spawnOptions.cwd ? spawnOptions.cwd : '')
+        );
+    }
+
+    private createPathMapping(options?: SpawnOptions) {
+        const cwd = options && options.cwd ? options.cwd : '';
+        const pathMapping = this.pathMappings.reduce(
+            (pathMapping, { local, remote }) =>
+                pathMapping.add(cwd ? resolve(cwd, local) : local, remote),
+            new PathMapping()
+        );
+
+        return this.isRemote() && cwd
+            ? pathMapping.add(cwd, this.getRemoteRoot(options))
+            : pathMapping;
+    }
+
+    private getXdebugFlags() {
+        return [
+            'xdebug.mode=debug',
+            'xdebug.start_with_request=yes',
+            `xdebug.client_port=${this.xdebugPort}`,
+            'xdebug.remote_enable=1',
+            'xdebug.remote_autostart=1',
+            `xdebug.remote_port=${this.xdebugPort}`,
+        ].reduce((flags: string[], flag) => flags.concat('-d', flag), []);
+    }
+
+    private getSpawnOptions(options?: SpawnOptions) {
+        if (this.debug) {
+            return this.withXdebugEnv(options);
+        }
+
+        return this.isParallel()
+            ? Object.assign({}, options, { detached: true, windowsHide: true })
+            : options;
+    }
+
+    private withXdebugEnv(options?: SpawnOptions): SpawnOptions {
+        const port = this.xdebugPort;
+        const env = Object.assign(
+            {},
+            process.env,
+            (options && options.env) || {},
+            {
+                XDEBUG_MODE: 'debug',
+                XDEBUG_CONFIG: `idekey=VSCODE client_port=${port} remote_port=${port}`,
+            }
+        );
+
+        return Object.assign({}, options, { env });
+    }
+
+    private async createLogDirectory() {
+        if (!this.logJUnit && !this.coverage) {
+            return '';
+        }
+
+        return await this._files.mkdtemp(join(tmpdir(), 'phpunit-lsp-'));
+    }
+
+    private async removeLogDirectory(directory: string) {
+        if (!directory) {
+            return;
+        }
+
+        await Promise.all(
+            ['xml', 'clover.xml'].map(extension =>
+                this._files.unlink(this.getLogFile(directory, extension))
+            )
+        );
+        await this._files.rmdir(directory);
+    }
+
+    private getLogFile(directory: string, extension: string) {
+        const shard = this.shard > 0 ? `-${this.shard}` : '';
+
+        return join(directory, `phpunit-lsp${shard}.${extension}`);
+    }
+
+    private async readLog(file: string, options?: SpawnOptions) {
+        if (this.isRemote() && !this.docker.service) {
+            return await this.readRemoteLog(this.toRemoteLog(file), options);
+        }
+
+        const contents = await this.readFile(file);
+        await this._files.unlink(file);
+
+        return contents;
+    }
+
+    private async readRemoteLog(file: string, options?: SpawnOptions) {
+        const quoted = this.shellQuote(file);
+        const params = [
+            'sh',
+            '-c',
+            `cat ${quoted} 2>/dev/null; rm -f ${quoted}`,
+        ];
+        const [command, ...args] = this.isDocker()
+            ? this.asDockerCommand(params, options)
+            : this.asSshCommand(params, options);
+
+        return await new Process().run(
+            { title: 'PHPUnit LSP', command, arguments: args },
+            options
+        );
+    }
+
+    private toRemoteLog(file: string) {
+        if (!file || !this.isRemote()) {
+            return file;
+        }
+
+        // a compose service gets the log folder mounted, other remotes keep
+        // their logs in their own temp folder until they are read back
+        return this.docker.service
+            ? posix.join('/tmp', basename(dirname(file)), basename(file))
+            : posix.join(
+                  '/tmp',
+                  `${basename(dirname(file))}-${basename(file)}`
+              );
+    }
+
+    private async readFile(file: string) {
+        try {
+            return file ? await this._files.get(file) : '';
+        } catch (e) {
+            return '';
+        }
+    }
+
+    private async getConfiguredCoverage(options?: SpawnOptions) {
+        return this.hasConfiguration()
+            ? ''
+            : (await this.phpUnitXml.load(options)).getCoverageClover();
+    }
+
+    private hasConfiguration() {
+        return this.args.some((arg: string) =>
+            ['-c', '--configuration'].some(key => arg.indexOf(key) !== -1)
+        );
+    }
+
+    private quote(value: string, options?: SpawnOptions) {
+        if (!options || !options.shell) {
+            return value;
+        }
+
+        return process.platform === 'win32' ? `"${value}"` : `'${value}'`;
+    }
+
+    private escapeRegExp(value: string) {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
     private getPhpBinary(): Promise<string> {
         return Promise.resolve(this.phpBinary);
     }
@@ -187,10 +724,16 @@ export class TestRunner {
         );
     }
 
-    private async getPhpUnitXml(spawnOptions?: SpawnOptions) {
+    private async getParaTestBinary(
+        spawnOptions?: SpawnOptions
+    ): Promise<string | void> {
         return await this._files.findup(
-            ['phpunit.xml', 'phpunit.xml.dist'],
+            ['vendor/bin/paratest', 'paratest'],
             spawnOptions
         );
     }
+
+    private async getPhpUnitXml(spawnOptions?: SpawnOptions) {
+        return await this.phpUnitXml.findup(spawnOptions);
+    }
 }
@@ -0,0 +1,105 @@
+import { Command } from 'vscode-languageserver-protocol';
+import { Params, TestRunner } from './TestRunner';
+import { SpawnOptions } from 'child_process';
+
+export interface ShardResult {
+    file: string;
+    output: string;
+    junitLog: string;
+    command: Command;
+}
+
+export class TestShardRunner {
+    private runners: TestRunner[] = [];
+    private cancelled = false;
+
+    constructor(private createRunner = () => new TestRunner()) {}
+
+    plan(
+        files: string[],
+        shards: number,
+        duration: (file: string) => number
+    ): string[][] {
+        const plan = Array.from(
+            { length: Math.max(Math.min(shards, files.length), 1) },
+            () => ({ files: [] as string[], duration: 0 })
+        );
+
+        files
+            .slice()
+            .sort((a, b) => duration(b) - duration(a) || a.localeCompare(b))
+            .forEach(file => {
+                const shard = plan.reduce((lightest, shard) =>
+                    shard.duration < lightest.duration ? shard : lightest
+                );
+
+                shard.files.push(file);
+                shard.duration += duration(file);
+            });
+
+        return plan.map(shard => shard.files).filter(files => files.length > 0);
+    }
+
+    async run(
+        shards: string[][],
+        params: Params,
+        options: SpawnOptions,
+        configure: (testRunner: TestRunner) => TestRunner
+    ): Promise<ShardResult[]> {
+        this.runners = shards.map((_, index) =>
+            configure(this.createRunner()).setShard(index + 1)
+        );
+
+        try {
+            const results = await Promise.all(
+                shards.map((files, index) =>
+                    this.runShard(this.runners[index], files, params, options)
+                )
+            );
+
+            return results.reduce(
+                (all: ShardResult[], results) => all.concat(results),
+                []
+            );
+        } finally {
+            this.runners = [];
+        }
+    }
+
+    cancel(): boolean {
+        this.cancelled = true;
+
+        return this.runners
+            .map(testRunner => testRunner.cancel())
+            .some(killed => killed);
+    }
+
+    private async runShard(
+        testRunner: TestRunner,
+        files: string[],
+        params: Params,
+        options: SpawnOptions
+    ) {
+        const results: ShardResult[] = [];
+
+        for (const file of files) {
+            if (this.cancelled) {
+                break;
+            }
+
+            await testRunner.run(
+                Object.assign({}, params, { file, testsuite: undefined }),
+                options
+            );
+
+            results.push({
+                file,
+                output: testRunner.getOutput(),
+                junitLog: testRunner.getJUnitLog(),
+                command: testRunner.getCommand(),
+            });
+        }
+
+        return results;
+    }
+}
@@ -3,47 +3,58 @@ import Parser from './Parser';
 import URI from 'vscode-uri';
 import { IOptions } from 'glob';
 import { PathLike } from 'fs';
+import { PhpUnitXml } from './PhpUnitXml';
 import { TestInfo, TestSuiteInfo } from './TestExplorer';
-import { TestNode, TestSuiteNode } from './TestNode';
-import { TextDocument } from 'vscode-languageserver-protocol';
+import { DataSetNode, TestNode, TestSuiteNode } from './TestNode';
+import { CodeLens, TextDocument } from 'vscode-languageserver-protocol';
 
 export class TestSuiteCollection {
-    private suites: Map<string, TestSuiteNode> = new Map<
+    private suites: Map<string, TestSuiteNode[]> = new Map<
         string,
-        TestSuiteNode
+        TestSuiteNode[]
     >();
 
-    constructor(private parser = new Parser(), private _files = files) {}
+    constructor(
+        private parser = new Parser(),
+        private _files = files,
+        private phpUnitXml = new PhpUnitXml(_files)
+    ) {}
 
-    async load(pattern: string, options: IOptions = { cwd: process.cwd() }) {
-        const defaults = {
-            absolute: true,
-            strict: false,
-        };
+    async load(
+        pattern: string | string[],
+        options: IOptions = { cwd: process.cwd() }
+    ) {
+        return this.putFiles(await this.glob(pattern, options));
+    }
 
-        const files = await this._files.glob(
-            pattern,
-            Object.assign(defaults, options)
-        );
+    async discover(
+        pattern: string,
+        options: IOptions = { cwd: process.cwd() }
+    ) {
+        await this.phpUnitXml.load({ cwd: options.cwd });
 
-        (await Promise.all(
-            files.map(async file => [file, await this._files.get(file)])
-        )).forEach(([file, code]) => {
-            this.put(file, code);
-        });
+        if (!this.phpUnitXml.hasTestSuites()) {
+            return this.load(pattern, options);
+        }
 
-        return this;
+        return this.putFiles(
+            await this.glob(this.phpUnitXml.getPatterns(), options),
+            file => this.phpUnitXml.testSuitesOf(file).length > 0
+        );
     }
 
     async put(
         uri: PathLike | URI,
         code?: string
     ): Promise<TestSuiteCollection> {
-        const suite = code
+        const dependents = this.parser.dependents(uri);
+        const suites = code
             ? this.parser.parseCode(code, uri)
             : await this.parser.parse(uri);
 
-        return this.putTestSuite(this._files.asUri(uri), suite);
+        return this.putTestSuites(this._files.asUri(uri), suites).refresh(
+            dependents.concat(this.parser.dependents(uri))
+        );
     }
 
     putTextDocument(document: TextDocument | undefined): TestSuiteCollection {
@@ -51,32 +62,66 @@ export class TestSuiteCollection {
             return this;
         }
 
-        return this.putTestSuite(
+        const dependents = this.parser.dependents(document.uri);
+
+        return this.putTestSuites(
             this._files.asUri(document.uri),
             this.parser.parseTextDocument(document)
-        );
+        ).refresh(dependents.concat(this.parser.dependents(document.uri)));
     }
 
-    get(uri: PathLike | URI) {
-        return this.suites.get(this._files.asUri(uri).toString());
+    get(uri: PathLike | URI): TestSuiteNode[] {
+        return this.suites.get(this._files.asUri(uri).toString()) || [];
     }
 
     delete(uri: PathLike | URI) {
-        return this.suites.delete(this._files.asUri(uri).toString());
+        const dependents = this.parser.dependents(uri);
+        const deleted = this.suites.delete(this._files.asUri(uri).toString());
+
+        this.parser.forget(uri);
+        this.refresh(dependents);
+
+        return deleted;
+    }
+
+    exportCodeLens(uri: PathLike | URI): CodeLens[] {
+        const file = this._files.asUri(uri).toString();
+        const inherited = this.where(
+            test =>
+                test instanceof TestNode &&
+                !(test instanceof DataSetNode) &&
+                test.isInherited() &&
+                test.declaringFile === file
+        );
+
+        return this.get(uri)
+            .reduce(
+                (codeLens: CodeLens[], suite) =>
+                    codeLens.concat(suite.exportCodeLens()),
+                []
+            )
+            .concat(
+                inherited.reduce(
+                    (codeLens: CodeLens[], test) =>
+                        codeLens.concat(test.asCodeLenses()),
+                    []
+                )
+            );
     }
 
     clear() {
         this.suites.clear();
+        this.parser.clear();
 
         return this;
     }
 
     tree(): TestSuiteInfo {
-        const children: TestSuiteInfo[] = [];
-
-        this.suites.forEach(suite => {
-            children.push(this.toTestSuiteInfo(suite));
-        });
+        const children: TestSuiteInfo[] = this.phpUnitXml.hasTestSuites()
+            ? this.phpUnitXml
+                  .getTestSuites()
+                  .map(testSuite => this.toPhpUnitTestSuiteInfo(testSuite.name))
+            : this.all().map(suite => this.toTestSuiteInfo(suite));
 
         return {
             type: 'suite',
@@ -99,7 +144,7 @@ export class TestSuiteCollection {
                 }
             }
 
-            for (const test of suite.children) {
+            for (const test of this.withDataSets(suite.children)) {
                 if (filter(test)) {
                     tests.push(test);
 
@@ -119,44 +164,168 @@ export class TestSuiteCollection {
         }, true)[0];
     }
 
+    putDataSet(id: string, dataSet: string): TestNode | undefined {
+        const test = this.find(id);
+
+        if (
+            !(test instanceof TestNode) ||
+            test instanceof DataSetNode ||
+            test.hasDataSet(dataSet)
+        ) {
+            return undefined;
+        }
+
+        return test.putDataSet(dataSet);
+    }
+
+    ofTestSuite(name: string): TestSuiteNode[] {
+        return this.all().filter(suite =>
+            this.phpUnitXml.testSuitesOf(suite.uri!).includes(name)
+        );
+    }
+
+    groups(): string[] {
+        return this.where(test => test instanceof TestNode)
+            .reduce((groups: string[], test) => groups.concat(test.groups), [])
+            .filter((group, index, groups) => groups.indexOf(group) === index)
+            .sort();
+    }
+
     all(): TestSuiteNode[] {
-        return Array.from(this.suites.values());
+        return Array.from(this.suites.values()).reduce(
+            (suites: TestSuiteNode[], items) => suites.concat(items),
+            []
+        );
     }
 
-    private putTestSuite(uri: URI, suite: TestSuiteNode | undefined) {
-        if (!suite) {
-            return this;
-        }
+    private async glob(pattern: string | string[], options: IOptions) {
+        const defaults = {
+            absolute: true,
+            strict: false,
+        };
+
+        const patterns = pattern instanceof Array ? pattern : [pattern];
 
+        return (await Promise.all(
+            patterns.map(pattern =>
+                this._files.glob(pattern, Object.assign({}, defaults, options))
+            )
+        ))
+            .reduce((files: string[], items) => files.concat(items), [])
+            .filter((file, index, files) => files.indexOf(file) === index);
+    }
+
+    private async putFiles(
+        files: string[],
+        filter: (file: string) => boolean = () => true
+    ) {
+        (await Promise.all(
+            files.map(async file => [file, await this._files.get(file)])
+        )).forEach(([file, code]) => {
+            this.parser.index(code, file);
+        });
+
+        files.filter(filter).forEach(file => {
+            this.putTestSuites(
+                this._files.asUri(file),
+                this.parser.resolve(file)
+            );
+        });
+
+        return this;
+    }
+
+    private putTestSuites(uri: URI, suites: TestSuiteNode[]) {
         const key = uri.toString();
 
         if (this.suites.has(key)) {
             this.suites.delete(key);
         }
 
-        this.suites.set(key, suite);
+        if (suites.length > 0) {
+            this.suites.set(key, suites);
+        }
 
         return this;
     }
 
-    private toTestSuiteInfo(suite: TestSuiteNode): TestSuiteInfo {
+    private refresh(uris: string[]) {
+        uris.forEach(uri =>
+            this.putTestSuites(this._files.asUri(uri), this.parser.resolve(uri))
+        );
+
+        return this;
+    }
+
+    private withDataSets(tests: (TestSuiteNode | TestNode)[]) {
+        return tests.reduce(
+            (items: (TestSuiteNode | TestNode)[], test) =>
+                items.concat(
+                    test instanceof TestNode ? [test, ...test.dataSets] : [test]
+                ),
+            []
+        );
+    }
+
+    private toPhpUnitTestSuiteInfo(name: string): TestSuiteInfo {
         return {
             type: 'suite',
-            id: suite.id,
-            label: suite.label,
-            file: suite.file,
-            line: suite.line,
-            children: suite.children.map(test => {
-                return test instanceof TestSuiteNode
-                    ? this.toTestSuiteInfo(test)
-                    : ({
-                          type: 'test',
-                          id: test.id,
-                          label: test.label,
-                          file: test.file,
-                          line: test.line,
-                      } as TestInfo);
-            }),
+            id: `testsuite:${name}`,
+            label: name,
+            children: this.all()
+                .filter(suite =>
+                    this.phpUnitXml.testSuitesOf(suite.uri!).includes(name)
+                )
+                .map(suite => this.toTestSuiteInfo(suite)),
         };
     }
+
+    private toTestSuiteInfo(suite: TestSuiteNode): TestSuiteInfo {
+        return Object.assign(
+            {
+                type: 'suite',
+                id: suite.id,
+                label: suite.label,
+                file: suite.file,
+                line: suite.line,
+                children: suite.children.map(test => {
+                    return test instanceof TestSuiteNode
+                        ? this.toTestSuiteInfo(test)
+                        : this.toTestInfo(test);
+                }),
+            },
+            this.toGroupInfo(suite)
+        ) as TestSuiteInfo;
+    }
+
+    private toTestInfo(test: TestNode): TestSuiteInfo | TestInfo {
+        const info = Object.assign(
+            {
+                id: test.id,
+                label: test.label,
+                file: test.declaringFile,
+                line: test.line,
+            },
+            this.toGroupInfo(test)
+        );
+
+        return test.dataSets.length === 0
+            ? (Object.assign({ type: 'test' }, info) as TestInfo)
+            : (Object.assign({ type: 'suite' }, info, {
+                  children: test.dataSets.map(dataSet =>
+                      this.toTestInfo(dataSet)
+                  ),
+              }) as TestSuiteInfo);
+    }
+
+    private toGroupInfo(test: TestSuiteNode | TestNode) {
+        const groups = test.groups;
+
+        return groups.length === 0
+            ? {}
+            : {
+                  description: groups.map(group => `@${group}`).join(' '),
+                  tooltip: `${test.id}\nGroups: ${groups.join(', ')}`,
+              };
+    }
 }
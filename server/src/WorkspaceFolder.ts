@@ -1,14 +1,29 @@
 import files from './Filesystem';
 import md5 from 'md5';
+import URI from 'vscode-uri';
 import { Configuration } from './Configuration';
+import { CoverageCollection } from './CoverageCollection';
+import { join } from 'path';
+import { PathLike } from 'fs';
+import { PathMapping } from './PathMapping';
 import { ProblemCollection } from './ProblemCollection';
-import { ProblemMatcher } from './ProblemMatcher';
+import { IProblemMatcher } from './ProblemMatcher';
+import { ProblemNode } from './ProblemNode';
+import { SpawnOptions } from 'child_process';
+import { tmpdir } from 'os';
 import { TestEvent, TestSuiteEvent, TestSuiteInfo } from './TestExplorer';
+import { TestDurationCollection } from './TestDurationCollection';
 import { TestEventCollection } from './TestEventCollection';
-import { TestNode, TestSuiteNode } from './TestNode';
+import { DataSetNode, TestNode, TestSuiteNode } from './TestNode';
+import { TestProgress } from './TestProgress';
+import { TestResultCache } from './TestResultCache';
+import { FlakyTest, TestRunHistory } from './TestRunHistory';
 import { TestRunner } from './TestRunner';
+import { TestRunQueue } from './TestRunQueue';
+import { TestShardRunner } from './TestShardRunner';
 import { TestSuiteCollection } from './TestSuiteCollection';
 import {
+    Command,
     Connection,
     ExecuteCommandParams,
     LogMessageNotification,
@@ -18,19 +33,39 @@ import {
     WorkspaceFolder as _WorkspaceFolder,
 } from 'vscode-languageserver';
 import {
+    AggregateTestResponse,
     TestResponse,
     ITestResponse,
     FailedTestResponse,
+    JUnitTestResponse,
+    TestCase,
 } from './TestResponse';
 
 export class WorkspaceFolder {
-    private commandLookup: Map<string, Function> = new Map([
+    private commandLookup: Map<string, Function> = new Map<string, Function>([
         ['phpunit.lsp.run-all', this.runAll],
         ['phpunit.lsp.rerun', this.rerun],
         ['phpunit.lsp.run-file', this.runFile],
         ['phpunit.lsp.run-test-at-cursor', this.runTestAtCursor],
+        ['phpunit.lsp.debug-test-at-cursor', this.debugTestAtCursor],
+        ['phpunit.lsp.run-testsuite', this.runTestSuite],
+        ['phpunit.lsp.run-group', this.runGroup],
+        ['phpunit.lsp.run-failed', this.runFailed],
+        ['phpunit.lsp.run-with-coverage', this.runWithCoverage],
+        ['phpunit.lsp.cancel', this.cancel],
     ]);
 
+    private debug = false;
+    private retried: Map<number, boolean> = new Map();
+    private storagePath = '';
+    private runEvents: Map<number, string[]> = new Map();
+    private progresses: Map<number, TestProgress> = new Map();
+    private shardRunners: Map<number, TestShardRunner> = new Map();
+    private lastShardedRun?: {
+        params: any;
+        tests: (TestSuiteNode | TestNode)[];
+    };
+
     constructor(
         private workspaceFolder: _WorkspaceFolder,
         private connection: Connection,
@@ -38,29 +73,54 @@ export class WorkspaceFolder {
         private suites: TestSuiteCollection,
         private events: TestEventCollection,
         private problems: ProblemCollection,
-        private problemMatcher: ProblemMatcher,
+        private problemMatcher: IProblemMatcher,
         private testRunner: TestRunner,
-        private _files = files
+        private _files = files,
+        private createProgress = () => new TestProgress(),
+        private durations = new TestDurationCollection(),
+        private cache = new TestResultCache(_files),
+        private history = new TestRunHistory(_files),
+        private coverages = new CoverageCollection(_files),
+        private createShardRunner = () => new TestShardRunner(),
+        private runs = new TestRunQueue(testRunner)
     ) {
         this.onTestLoadStartedEvent();
         this.onTestRunStartedEvent();
         this.onTestCancelEvent();
+        this.onTestOutput();
     }
 
     public requestName(name: string) {
         return [name, md5(this.workspaceFolder.uri.toString())].join('-');
     }
 
+    setStoragePath(storagePath: string) {
+        this.storagePath = storagePath;
+
+        return this;
+    }
+
     getConfig() {
         return this.config;
     }
 
     async detectChange(event: FileEvent) {
+        const previous = this.suites.get(event.uri);
+
         if (this.isFileChanged(event)) {
             await this.suites.put(event.uri);
         }
 
-        return this.suites.get(event.uri);
+        const suites = this.suites.get(event.uri);
+        const ids = suites.map(suite => suite.id);
+
+        this.events.delete(previous.filter(suite => !ids.includes(suite.id)));
+
+        return suites;
+    }
+
+    exportCodeLens(uri: PathLike | URI) {
+        return this.suites.exportCodeLens(uri);
     }
 
     async loadTest() {
@@ -72,11 +132,14 @@ export class WorkspaceFolder {
         this.events.clear();
 
         await this.sendLoadTestFinishedEvent(
-            (await this.suites.load(this.config.files, {
+            (await this.suites.discover(this.config.files, {
                 ignore: '**/vendor/**',
                 cwd: this.fsPath(),
             })).tree()
         );
+
+        await this.restoreResults();
+        await this.loadHistory();
     }
 
     async executeCommand(params: ExecuteCommandParams) {
@@ -85,17 +148,75 @@ export class WorkspaceFolder {
 
         return this.commandLookup.has(command)
             ? await this.commandLookup.get(command)!.call(this, args)
-            : await this.cancel();
+            : await this.cancel(args);
+    }
+
+    async testSuites(): Promise<string[]> {
+        return await this.testRunner.getTestSuites({ cwd: this.fsPath() });
+    }
+
+    groups(): string[] {
+        return this.suites.groups();
+    }
+
+    slowest() {
+        return this.durations
+            .slowest(this.config.slowestTests)
+            .map(([id, duration]) => {
+                const test = this.findTest(id);
+
+                return {
+                    id,
+                    label: test ? test.label : id,
+                    description: this.durations.format(duration),
+                    uri: test ? test.declaringFile : undefined,
+                    line: test ? test.line : 0,
+                };
+            });
     }
 
-    async cancel() {
-        this.testRunner.cancel();
+    flaky() {
+        return this.history.flaky().map(flaky => {
+            const test = this.findTest(flaky.id);
 
-        return this.sendRunTestFinished(new FailedTestResponse('cancel'));
+            return {
+                id: flaky.id,
+                label: test ? test.label : flaky.id,
+                description: this.describeFlakiness(flaky),
+                uri: test ? test.declaringFile : undefined,
+                line: test ? test.line : 0,
+            };
+        });
+    }
+
+    async cancel(params: any[] = []) {
+        const runId: number | undefined = params[0];
+
+        this.runs.cancel(runId);
+        this.shardRunners.forEach((shardRunner, id) => {
+            if (runId === undefined || runId === id) {
+                shardRunner.cancel();
+            }
+        });
+        this.retried.forEach((_, id) => {
+            if (runId === undefined || runId === id) {
+                this.retried.set(id, true);
+            }
+        });
+
+        return this.sendRunTestFinished(
+            new FailedTestResponse('cancel'),
+            [this.testRunner.getCommand()],
+            runId
+        );
     }
 
     private async runAll() {
-        return await this.run({}, this.suites.all());
+        if (this.config.excludeGroups.length === 0) {
+            return await this.run({}, this.suites.all());
+        }
+
+        return await this.run({}, this.findTestsByGroups([], []));
     }
 
     private async runFile(params: string[]) {
@@ -113,7 +234,88 @@ export class WorkspaceFolder {
         return await this.run(tests[0], tests);
     }
 
+    private async debugTestAtCursor(params: string[]) {
+        return await this.withDebug(true, () => this.runTestAtCursor(params));
+    }
+
+    private async runTestSuite(params: string[]) {
+        const testsuite: string = params[0] || '';
+
+        return await this.run(
+            { testsuite },
+            this.suites.ofTestSuite(testsuite)
+        );
+    }
+
+    private async runGroup(params: any[]) {
+        const groups: string[] = params[0] || [];
+        const excludeGroups: string[] = params[1] || [];
+
+        return await this.run(
+            { groups, excludeGroups },
+            this.findTestsByGroups(groups, excludeGroups)
+        );
+    }
+
+    private async runFailed() {
+        const runIds: number[] = [];
+        const isCancelled = () =>
+            runIds.some(runId => this.retried.get(runId) === true);
+        const onStart = (runId: number) => {
+            runIds.push(runId);
+            this.retried.set(runId, false);
+        };
+        let failed = this.findFailedTests();
+        let response: ITestResponse | undefined;
+
+        try {
+            for (
+                let attempt = 0;
+                attempt < this.config.runFailedMaxAttempts && failed.length > 0;
+                attempt++
+            ) {
+                for (const [file, tests] of this.groupByFile(failed)) {
+                    const result = await this.run(
+                        { file, methods: tests.map(test => test.id) },
+                        tests,
+                        false,
+                        false,
+                        onStart
+                    );
+
+                    // a queued run that got cancelled never starts
+                    if (!result || isCancelled()) {
+                        return result || response;
+                    }
+
+                    response = result;
+                }
+
+                const ids = failed.map(test => test.id);
+                failed = this.findFailedTests().filter(test =>
+                    ids.includes(test.id)
+                );
+            }
+
+            return response;
+        } finally {
+            runIds.forEach(runId => this.retried.delete(runId));
+        }
+    }
+
+    private async runWithCoverage() {
+        return await this.run({}, this.suites.all(), false, true);
+    }
+
     private async rerun(params: string[]) {
+        // a sharded run is repeated by sharding the same tests again
+        if (this.lastShardedRun) {
+            return await this.run(
+                this.lastShardedRun.params,
+                this.lastShardedRun.tests
+            );
+        }
+
         const tests = this.findTestAtCursorOrId(params);
 
         return await this.run(tests[0], tests, true);
@@ -122,16 +324,62 @@ export class WorkspaceFolder {
     private async run(
         params: any,
         tests: (TestSuiteNode | TestNode)[],
-        rerun = false
+        rerun = false,
+        coverage = false,
+        onStart?: (runId: number) => void
     ) {
-        await this.sendTestRunStartedEvent(tests);
+        const debug = this.debug;
 
-        this.testRunner
-            .setPhpBinary(this.config.php)
-            .setPhpUnitBinary(this.config.phpunit)
-            .setArgs(this.config.args)
-            .setRelativeFilePath(this.config.relativeFilePath)
+        return await this.runs.run(
+            this.config.runMode,
+            async (testRunner, runId) => {
+                this.progresses.set(runId, this.createProgress());
+
+                if (onStart) {
+                    onStart(runId);
+                }
+
+                try {
+                    return await this.runWith(
+                        testRunner,
+                        runId,
+                        params,
+                        tests,
+                        rerun,
+                        coverage,
+                        debug
+                    );
+                } finally {
+                    this.progresses.delete(runId);
+                }
+            },
+            rerun ? this.runs.lastRunner() : undefined
+        );
+    }
+
+    private async runWith(
+        testRunner: TestRunner,
+        runId: number,
+        params: any,
+        tests: (TestSuiteNode | TestNode)[],
+        rerun: boolean,
+        coverage: boolean,
+        debug: boolean
+    ) {
+        await this.sendTestRunStartedEvent(tests, runId, debug);
+
+        const shardRunner = this.createShardRunner();
+        const shards =
+            rerun || coverage
+                ? []
+                : this.planShards(shardRunner, params, tests, debug);
 
+        if (rerun === false) {
+            this.lastShardedRun =
+                shards.length > 1 ? { params, tests } : undefined;
+        }
+
+        this.configure(testRunner, coverage, debug);
         this.problems.setRemoteCwd(this.config.remoteCwd);
 
         const options = {
@@ -139,13 +387,146 @@ export class WorkspaceFolder {
             shell: this.config.shell,
         };
 
+        if (shards.length > 1) {
+            const results = await this.runShards(
+                runId,
+                shardRunner,
+                shards,
+                params,
+                options
+            );
+
+            return this.sendRunTestFinished(
+                new AggregateTestResponse(
+                    results.map(({ output, junitLog }) =>
+                        this.createTestResponse(output, junitLog)
+                    )
+                ),
+                results.map(({ command }) => command),
+                runId
+            );
+        }
+
         rerun === false
-            ? await this.testRunner.run(params, options)
-            : await this.testRunner.rerun(params, options);
+            ? await testRunner.run(params, options)
+            : await testRunner.rerun(params, options);
+
+        if (testRunner.getCoverage()) {
+            this.sendCoverage(testRunner.getCoverage());
+        }
 
         return this.sendRunTestFinished(
-            new TestResponse(this.testRunner.getOutput(), this.problemMatcher)
+            this.createTestResponse(
+                testRunner.getOutput(),
+                testRunner.getJUnitLog()
+            ),
+            [testRunner.getCommand()],
+            runId
+        );
+    }
+
+    private configure(testRunner: TestRunner, coverage = false, debug = false) {
+        return testRunner
+            .setPhpBinary(this.config.php)
+            .setPhpUnitBinary(this.config.phpunit)
+            .setArgs(this.config.args)
+            .setExcludeGroups(this.config.excludeGroups)
+            .setStreamResults(this.config.streamResults)
+            .setTeamcity(this.config.problemMatcher === 'teamcity')
+            .setLogJUnit(this.config.logJUnit)
+            .setParaTest(this.config.paraTest)
+            .setProcesses(this.config.paraTestProcesses)
+            .setCoverage(coverage)
+            .setDebug(debug)
+            .setXdebugPort(this.config.xdebugPort)
+            .setDocker(this.config.docker)
+            .setSsh(this.config.ssh)
+            .setPathMappings(this.config.pathMappings)
+            .setRelativeFilePath(this.config.relativeFilePath);
+    }
+
+    private planShards(
+        shardRunner: TestShardRunner,
+        params: any,
+        tests: (TestSuiteNode | TestNode)[],
+        debug: boolean
+    ) {
+        if (
+            this.config.shards < 2 ||
+            this.config.paraTest ||
+            debug ||
+            params.file
+        ) {
+            return [];
+        }
+
+        const files = tests
+            .map(test => test.file || '')
+            .filter((file, index, files) => files.indexOf(file) === index);
+        const durations = new Map(
+            files.map(file => [file, this.durationOf(file)] as [string, number])
         );
+        const known = Array.from(durations.values()).filter(
+            duration => duration > 0
+        );
+        const average =
+            known.reduce((total, duration) => total + duration, 0) /
+                known.length || 1;
+
+        return shardRunner.plan(
+            files,
+            this.config.shards,
+            file => durations.get(file) || average
+        );
+    }
+
+    private durationOf(file: string) {
+        return this.suites
+            .where(test => test instanceof TestNode && test.file === file)
+            .reduce(
+                (total, test) => total + (this.durations.get(test.id) || 0),
+                0
+            );
+    }
+
+    private async runShards(
+        runId: number,
+        shardRunner: TestShardRunner,
+        shards: string[][],
+        params: any,
+        options: SpawnOptions
+    ) {
+        this.shardRunners.set(runId, shardRunner);
+
+        try {
+            return await shardRunner.run(shards, params, options, testRunner =>
+                this.configure(testRunner).onOutput(line =>
+                    this.onTestOutputLine(line, runId)
+                )
+            );
+        } finally {
+            this.shardRunners.delete(runId);
+        }
+    }
+
+    private sendCoverage(coverage: string) {
+        const coverages = this.coverages
+            .parse(
+                coverage,
+                new PathMapping(this.fsPath(), this.config.remoteCwd)
+            )
+            .all();
+
+        this.connection.sendNotification('CoverageEvent', { coverages });
+    }
+
+    private createTestResponse(
+        output: string,
+        junitLog: string
+    ): ITestResponse {
+        return junitLog
+            ? new JUnitTestResponse(junitLog, output)
+            : new TestResponse(output, this.problemMatcher);
     }
 
     private findTestAtCursorOrId(params: string[]) {
@@ -162,6 +543,21 @@ export class WorkspaceFolder {
         );
     }
 
+    private findTestsByGroups(groups: string[], excludeGroups: string[]) {
+        const excludes = excludeGroups
+            .concat(this.config.excludeGroups)
+            .filter(group => !groups.includes(group));
+
+        return this.suites.where(
+            test =>
+                test instanceof TestNode &&
+                !(test instanceof DataSetNode) &&
+                (groups.length === 0 ||
+                    test.groups.some(group => groups.includes(group))) &&
+                !test.groups.some(group => excludes.includes(group))
+        );
+    }
+
     async retryTest() {
         await this.connection.sendRequest(this.requestName('TestRetryEvent'));
 
@@ -173,7 +569,7 @@ export class WorkspaceFolder {
         file: string,
         line: number
     ) {
-        if (test.file !== file) {
+        if (test.declaringFile !== file) {
             return false;
         }
 
@@ -195,41 +591,112 @@ export class WorkspaceFolder {
     private onTestRunStartedEvent() {
         this.connection.onNotification(
             this.requestName('TestRunStartedEvent'),
-            async ({ tests }) => {
-                const id: string = tests[0] || 'root';
-                const command =
-                    id === 'root'
-                        ? { command: 'phpunit.lsp.run-all', arguments: [] }
-                        : {
-                              command: 'phpunit.lsp.run-test-at-cursor',
-                              arguments: [id],
-                          };
-
-                return this.executeCommand(command);
+            async ({ tests, debug }) => {
+                return this.withDebug(debug === true, () =>
+                    this.executeCommand(this.asRunCommand(tests[0] || 'root'))
+                );
             }
         );
     }
 
+    private withDebug<T>(debug: boolean, callback: () => Promise<T>) {
+        this.debug = debug;
+
+        // run() reads the flag synchronously, it must not leak into later runs
+        try {
+            return callback();
+        } finally {
+            this.debug = false;
+        }
+    }
+
+    private asRunCommand(id: string) {
+        if (id === 'root') {
+            return { command: 'phpunit.lsp.run-all', arguments: [] };
+        }
+
+        if (id.indexOf('testsuite:') === 0) {
+            return {
+                command: 'phpunit.lsp.run-testsuite',
+                arguments: [id.replace(/^testsuite:/, '')],
+            };
+        }
+
+        return {
+            command: 'phpunit.lsp.run-test-at-cursor',
+            arguments: [id],
+        };
+    }
+
     private onTestCancelEvent() {
         this.connection.onNotification(
             this.requestName('TestCancelEvent'),
-            () => {
+            (params?: { runId?: number }) => {
                 return this.executeCommand({
-                    command: 'php.lsp.cancel',
-                    arguments: [],
+                    command: 'phpunit.lsp.cancel',
+                    arguments: params && params.runId ? [params.runId] : [],
                 });
             }
         );
     }
 
-    private async sendTestRunStartedEvent(tests: (TestSuiteNode | TestNode)[]) {
+    private onTestOutput() {
+        this.runs.onOutput((line, runId) => this.onTestOutputLine(line, runId));
+    }
+
+    private async onTestOutputLine(line: string, runId?: number) {
+        const progress =
+            runId === undefined ? undefined : this.progresses.get(runId);
+
+        if (!progress) {
+            return;
+        }
+
+        const event = progress.put(line);
+
+        if (!event) {
+            return;
+        }
+
+        const duration = progress.getDuration(event.test as string);
+        if (duration !== undefined) {
+            this.durations.put(event.test as string, duration);
+        }
+
+        try {
+            this.connection.sendNotification(
+                'TestRunProgressEvent',
+                Object.assign({ runId }, progress.toJSON())
+            );
+
+            await this.connection.sendRequest(
+                this.requestName('TestRunProgressEvent'),
+                { events: [this.withDuration(event)] }
+            );
+        } catch (e) {
+            // output keeps coming after the client went away
+        }
+    }
+
+    private async sendTestRunStartedEvent(
+        tests: (TestSuiteNode | TestNode)[],
+        runId?: number,
+        debug = false
+    ) {
         const params = {
+            runId,
+            debug,
+            workspaceFolder: this.workspaceFolder.uri,
             tests: tests.map(test => test.id),
             events: this.events
                 .put(tests)
                 .where(event => event.state === 'running'),
         };
 
+        if (runId !== undefined) {
+            this.claimEvents(runId, params.events);
+        }
+
         this.connection.sendNotification('TestRunStartedEvent', params);
 
         await this.connection.sendRequest(
@@ -238,6 +705,20 @@ export class WorkspaceFolder {
         );
     }
 
+    private claimEvents(runId: number, events: (TestSuiteEvent | TestEvent)[]) {
+        const claimed = Array.from(this.runEvents.values()).reduce(
+            (ids: string[], runEvents) => ids.concat(runEvents),
+            []
+        );
+
+        this.runEvents.set(
+            runId,
+            events
+                .map(event => this.getEventId(event) as string)
+                .filter(id => !claimed.includes(id))
+        );
+    }
+
     private async sendLoadTestFinishedEvent(suite: TestSuiteInfo) {
         await this.connection.sendRequest(
             this.requestName('TestLoadFinishedEvent'),
@@ -247,10 +728,30 @@ export class WorkspaceFolder {
         );
     }
 
-    private async sendRunTestFinished(response: ITestResponse) {
+    private async sendRunTestFinished(
+        response: ITestResponse,
+        commands: Command[],
+        runId?: number
+    ) {
+        const { events, dataSets } = await this.changeEventsState(
+            response,
+            runId === undefined ? undefined : this.runEvents.get(runId) || []
+        );
+        await this.recordHistory(events);
+
+        if (runId !== undefined) {
+            this.runEvents.delete(runId);
+        }
+
+        const dataSetIds = this.asDataSetIds(dataSets);
+        const isDataSet = (event: TestSuiteEvent | TestEvent) =>
+            dataSetIds.includes(this.getEventId(event) as string);
+        const finished = events.map(event => this.withFlakiness(event));
         const params = {
-            command: this.testRunner.getCommand(),
-            events: await this.changeEventsState(response),
+            runId,
+            workspaceFolder: this.workspaceFolder.uri,
+            commands,
+            events: finished.filter(event => !isDataSet(event)),
         };
 
         this.connection.sendNotification('TestRunFinishedEvent', params);
@@ -260,6 +761,19 @@ export class WorkspaceFolder {
             params
         );
 
+        await this.sendDataSets(dataSetIds, finished.filter(isDataSet));
+        await this.sendDiagnostics();
+        await this.storeResults(finished);
+
+        this.connection.sendNotification(LogMessageNotification.type, {
+            type: MessageType.Log,
+            message: response.toString(),
+        });
+
+        return response;
+    }
+
+    private async sendDiagnostics() {
         (await this.problems.asDiagnosticGroup()).forEach(
             (diagnostics, uri) => {
                 this.connection.sendDiagnostics({
@@ -268,31 +782,321 @@ export class WorkspaceFolder {
                 });
             }
         );
+    }
 
-        this.connection.sendNotification(LogMessageNotification.type, {
-            type: MessageType.Log,
-            message: response.toString(),
-        });
+    private async restoreResults() {
+        if (!this.config.cacheResults) {
+            return;
+        }
 
-        return response;
+        const { events, problems } = await (await this.cache.load(
+            await this.storageFile('cache')
+        )).restore();
+        const restored = events.filter(
+            event => !!this.findTest(event.test as string)
+        );
+
+        if (restored.length === 0) {
+            return;
+        }
+
+        this.events.put(restored);
+        this.problems.put(problems);
+
+        await this.connection.sendRequest(
+            this.requestName('TestRunStartedEvent'),
+            {
+                tests: restored.map(event => event.test),
+                events: restored,
+            }
+        );
+
+        await this.connection.sendRequest(
+            this.requestName('TestRunFinishedEvent'),
+            {
+                commands: [],
+                events: [],
+            }
+        );
+
+        await this.sendDiagnostics();
+    }
+
+    private async storeResults(events: (TestSuiteEvent | TestEvent)[]) {
+        if (!this.config.cacheResults) {
+            return;
+        }
+
+        const problems = this.problems.all();
+        const groups = this.groupEventsByFile(events);
+
+        if (groups.size === 0) {
+            return;
+        }
+
+        for (const [file, tests] of groups) {
+            const ids = tests.map(test => test.test as string);
+
+            await this.cache.put(
+                file,
+                tests,
+                problems.filter(problem =>
+                    ids.some(
+                        id =>
+                            problem.id === id ||
+                            problem.id.indexOf(`${id} with data set `) === 0
+                    )
+                ),
+                this.declaringFiles(tests)
+            );
+        }
+
+        await this.cache.save(await this.storageFile('cache'));
+    }
+
+    private async loadHistory() {
+        if (this.config.runHistory > 0) {
+            await this.history.load(await this.storageFile('history'));
+        }
+    }
+
+    private async recordHistory(events: (TestSuiteEvent | TestEvent)[]) {
+        const size = this.config.runHistory;
+        const groups = this.groupEventsByFile(events);
+
+        if (size <= 0 || groups.size === 0) {
+            return;
+        }
+
+        for (const [file, tests] of groups) {
+            await this.history.put(
+                file,
+                tests,
+                size,
+                this.declaringFiles(tests)
+            );
+        }
+
+        await this.history.save(await this.storageFile('history'));
     }
 
-    private async changeEventsState(response: ITestResponse) {
+    private async storageFile(extension: string) {
+        const storagePath = this.storagePath || join(tmpdir(), 'phpunit-lsp');
+        await this._files.mkdir(storagePath);
+
+        return join(
+            storagePath,
+            `${md5(this.workspaceFolder.uri)}.${extension}`
+        );
+    }
+
+    private declaringFiles(events: TestEvent[]) {
+        return events
+            .map(event => this.findTest(event.test as string))
+            .map(test => (test ? test.declaringFile : undefined))
+            .filter(
+                (file, index, files): file is string =>
+                    !!file && files.indexOf(file) === index
+            );
+    }
+
+    private groupEventsByFile(events: (TestSuiteEvent | TestEvent)[]) {
+        return events.reduce((groups, event) => {
+            const test =
+                event.type === 'test'
+                    ? this.findTest(event.test as string)
+                    : undefined;
+
+            if (test && test.file) {
+                groups.set(
+                    test.file,
+                    (groups.get(test.file) || []).concat(event as TestEvent)
+                );
+            }
+
+            return groups;
+        }, new Map<string, TestEvent[]>());
+    }
+
+    private async changeEventsState(response: ITestResponse, ids?: string[]) {
         const problems = await response.asProblems();
+        const testCases = response.getTestCases();
+        const dataSets = this.putDataSets(problems, testCases);
+
+        if (ids) {
+            ids = ids.concat(this.asDataSetIds(dataSets));
+        }
+
         const result = response.getTestResult();
         const state = result.tests === 0 ? 'errored' : 'passed';
 
         const events = this.events
-            .where(event => event.state === 'running')
-            .map(event => this.fillTestEventState(event, response, state));
+            .where(
+                event =>
+                    event.state === 'running' &&
+                    (!ids || ids.includes(this.getEventId(event) as string))
+            )
+            .map(event => {
+                const testCase = testCases.find(
+                    testCase => testCase.id === this.getEventId(event)
+                );
+
+                return this.fillTestEventState(
+                    event,
+                    response,
+                    testCase ? testCase.state : state
+                );
+            });
 
         this.problems.put(events).put(problems);
         this.events.put(events).put(problems);
+        this.durations.putTestCases(testCases);
 
         const eventIds = events.map(event => this.getEventId(event));
 
-        return this.events.where(test =>
-            eventIds.includes(this.getEventId(test))
+        return {
+            events: this.events
+                .where(test => eventIds.includes(this.getEventId(test)))
+                .map(event => this.withDuration(event)),
+            dataSets,
+        };
+    }
+
+    private withDuration(event: TestSuiteEvent | TestEvent) {
+        const duration =
+            event.type === 'test' && typeof event.test === 'string'
+                ? this.durations.get(event.test)
+                : undefined;
+
+        if (event.type === 'suite' || duration === undefined) {
+            return event;
+        }
+
+        const threshold = this.config.slowThreshold;
+        const text = this.durations.format(duration);
+
+        if (threshold <= 0 || duration < threshold) {
+            return Object.assign({}, event, { description: text });
+        }
+
+        const test = this.findTest(event.test as string);
+
+        return Object.assign({}, event, {
+            description: `${text} (slow)`,
+            decorations: (event.decorations || []).concat(
+                test ? [{ line: test.line, message: `Slow test: ${text}` }] : []
+            ),
+        });
+    }
+
+    private withFlakiness(event: TestSuiteEvent | TestEvent) {
+        const flaky =
+            event.type === 'test' && this.config.runHistory > 0
+                ? this.history.get(event.test as string)
+                : undefined;
+
+        if (!flaky || flaky.score === 0) {
+            return event;
+        }
+
+        return Object.assign({}, event, {
+            description: [event.description, '(flaky)']
+                .filter(text => !!text)
+                .join(' '),
+            tooltip: `Flaky test: ${this.describeFlakiness(flaky)}`,
+        });
+    }
+
+    private describeFlakiness(flaky: FlakyTest) {
+        return `failed ${flaky.failures} of the last ${
+            flaky.runs
+        } runs, score ${Math.round(flaky.score * 100)}%`;
+    }
+
+    private findFailedTests(): TestNode[] {
+        return this.events
+            .where(
+                event =>
+                    event.type === 'test' &&
+                    ['failed', 'errored'].includes(event.state)
+            )
+            .map(event => this.findTest(this.getEventId(event) as string))
+            .filter(test => !!test) as TestNode[];
+    }
+
+    private groupByFile(tests: TestNode[]) {
+        return tests.reduce((groups, test) => {
+            const file = test.file || '';
+
+            return groups.set(file, (groups.get(file) || []).concat(test));
+        }, new Map<string, TestNode[]>());
+    }
+
+    private findTest(id: string): TestNode | undefined {
+        return this.suites.where(test => test.id === id, true)[0] as
+            | TestNode
+            | undefined;
+    }
+
+    private putDataSets(problems: ProblemNode[], testCases: TestCase[]) {
+        // passed data sets are only known from the test cases of a JUnit log
+        const dataSets = problems
+            .filter(problem => !!problem.dataSet)
+            .map(problem => [
+                problem.id.replace(/ with data set .*$/, ''),
+                problem.dataSet,
+            ])
+            .concat(
+                testCases
+                    .map(testCase =>
+                        testCase.id.match(/^(.*?) with data set (#\d+|".*")$/)
+                    )
+                    .filter((match): match is RegExpMatchArray => !!match)
+                    .map(([, id, dataSet]) => [id, dataSet])
+            );
+        const tests = dataSets
+            .map(([id, dataSet]) => this.suites.putDataSet(id, dataSet))
+            .filter(
+                (test, index, tests): test is TestNode =>
+                    !!test && tests.indexOf(test) === index
+            );
+
+        this.events.put(tests);
+
+        return tests;
+    }
+
+    private asDataSetIds(tests: TestNode[]) {
+        return tests.reduce(
+            (ids: string[], test) =>
+                ids.concat(test.id, test.dataSets.map(dataSet => dataSet.id)),
+            []
+        );
+    }
+
+    private async sendDataSets(
+        ids: string[],
+        events: (TestSuiteEvent | TestEvent)[]
+    ) {
+        if (ids.length === 0) {
+            return;
+        }
+
+        // the explorer only learns about new nodes from a reload, so it
+        // happens once the run has finished and their results are replayed
+        await this.connection.sendRequest(
+            this.requestName('TestLoadStartedEvent')
+        );
+        await this.sendLoadTestFinishedEvent(this.suites.tree());
+
+        await this.connection.sendRequest(
+            this.requestName('TestRunStartedEvent'),
+            { tests: ids, events }
+        );
+
+        await this.connection.sendRequest(
+            this.requestName('TestRunFinishedEvent'),
+            { commands: [], events: [] }
         );
     }
 
@@ -324,11 +1128,7 @@ export class WorkspaceFolder {
             return true;
         }
 
-        const suite = this.suites.get(event.uri);
-        if (suite) {
-            this.events.delete(suite);
-            this.suites.delete(event.uri);
-        }
+        this.suites.delete(event.uri);
 
         return false;
     }
@@ -4,7 +4,11 @@ import URI from 'vscode-uri';
 import { Configuration } from './Configuration';
 import { OutputProblemMatcher } from './OutputProblemMatcher';
 import { PathLike } from 'fs';
+import { PhpUnitXml } from './PhpUnitXml';
 import { ProblemCollection } from './ProblemCollection';
+import { IProblemMatcher } from './ProblemMatcher';
+import { Process } from './Process';
+import { TeamcityProblemMatcher } from './TeamcityProblemMatcher';
 import { TestEventCollection } from './TestEventCollection';
 import { TestRunner } from './TestRunner';
 import { TestSuiteCollection } from './TestSuiteCollection';
@@ -16,9 +20,16 @@ import {
 
 export class WorkspaceFolders {
     private workspaceFolders: Map<string, WorkspaceFolder> = new Map();
+    private storagePath = '';
 
     constructor(private connection: Connection, private _files = files) {}
 
+    setStoragePath(storagePath = '') {
+        this.storagePath = storagePath;
+
+        return this;
+    }
+
     create(workspaceFolders: _WorkspaceFolder[]) {
         workspaceFolders.map(folder => {
             if (!this.workspaceFolders.has(folder.uri)) {
@@ -70,11 +81,27 @@ export class WorkspaceFolders {
 
     private createWorkspaceFolder(workspaceFolder: _WorkspaceFolder) {
         const config = new Configuration(this.connection, workspaceFolder);
-        const suites = new TestSuiteCollection(new Parser(workspaceFolder));
+        const phpUnitXml = new PhpUnitXml(this._files);
+        const suites = new TestSuiteCollection(
+            new Parser(workspaceFolder),
+            this._files,
+            phpUnitXml
+        );
         const events = new TestEventCollection();
         const problems = new ProblemCollection();
-        const problemMatcher = new OutputProblemMatcher(suites);
-        const testRunner = new TestRunner();
+        const outputProblemMatcher = new OutputProblemMatcher(suites);
+        const teamcityProblemMatcher = new TeamcityProblemMatcher(suites);
+        const problemMatcher: IProblemMatcher = {
+            parse: contents =>
+                config.problemMatcher === 'teamcity'
+                    ? teamcityProblemMatcher.parse(contents)
+                    : outputProblemMatcher.parse(contents),
+        };
+        const testRunner = new TestRunner(
+            new Process(),
+            this._files,
+            phpUnitXml
+        );
 
         return new WorkspaceFolder(
             workspaceFolder,
@@ -86,6 +113,6 @@ export class WorkspaceFolders {
             problemMatcher,
             testRunner,
             this._files
-        );
+        ).setStoragePath(this.storagePath);
     }
 }
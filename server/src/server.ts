@@ -33,9 +33,11 @@ let hasWorkspaceFolderCapability: boolean = false;
 // let hasDiagnosticRelatedInformationCapability: boolean = false;
 
 connection.onInitialize((params: InitializeParams) => {
-    workspaceFolders.create(
-        params.workspaceFolders || [{ uri: params.rootUri || '', name: '' }]
-    );
+    workspaceFolders
+        .setStoragePath((params.initializationOptions || {}).storagePath)
+        .create(
+            params.workspaceFolders || [{ uri: params.rootUri || '', name: '' }]
+        );
 
     let capabilities = params.capabilities;
 
@@ -72,6 +74,15 @@ connection.onInitialize((params: InitializeParams) => {
                     'phpunit.lsp.rerun',
                     'phpunit.lsp.run-file',
                     'phpunit.lsp.run-test-at-cursor',
+                    'phpunit.lsp.debug-test-at-cursor',
+                    'phpunit.lsp.run-testsuite',
+                    'phpunit.lsp.testsuites',
+                    'phpunit.lsp.run-group',
+                    'phpunit.lsp.groups',
+                    'phpunit.lsp.run-failed',
+                    'phpunit.lsp.run-with-coverage',
+                    'phpunit.lsp.slowest-tests',
+                    'phpunit.lsp.flaky-tests',
                     'phpunit.lsp.cancel',
                 ],
             },
@@ -118,7 +129,7 @@ connection.onDidChangeWatchedFiles(async params => {
             async event =>
                 await workspaceFolders.get(event.uri).detectChange(event)
         )
-    )).filter(suite => !!suite);
+    )).filter(suites => suites.length > 0);
 
     if (changes.length > 0) {
         await Promise.all(
@@ -131,8 +142,8 @@ connection.onDidChangeWatchedFiles(async params => {
         );
 
         await Promise.all(
-            changes.map(suite =>
-                workspaceFolders.get(suite!.workspaceFolder!).loadTest()
+            changes.map(suites =>
+                workspaceFolders.get(suites[0].workspaceFolder!).loadTest()
             )
         );
     }
@@ -155,23 +166,43 @@ connection.onCompletionResolve((item: CompletionItem) => {
 connection.onCodeLens(async params => {
     const uri = params.textDocument.uri;
 
-    const suite = await workspaceFolders.get(uri).detectChange({
+    const workspaceFolder = workspaceFolders.get(uri);
+
+    await workspaceFolder.detectChange({
         uri,
         type: FileChangeType.Changed,
     });
 
-    return suite ? suite.exportCodeLens() : [];
+    return workspaceFolder.exportCodeLens(uri);
 });
 
 connection.onExecuteCommand(async (params: ExecuteCommandParams) => {
     const command = params.command;
     const args: string[] = params.arguments || [];
-    const workspaceFolder = args.shift() || '';
+    const workspaceFolder = workspaceFolders.get(args.shift() || '');
+
+    if (command === 'phpunit.lsp.testsuites') {
+        return await workspaceFolder.testSuites();
+    }
+
+    if (command === 'phpunit.lsp.groups') {
+        return workspaceFolder.groups();
+    }
+
+    if (command === 'phpunit.lsp.slowest-tests') {
+        return workspaceFolder.slowest();
+    }
 
-    workspaceFolders.get(workspaceFolder).executeCommand({
+    if (command === 'phpunit.lsp.flaky-tests') {
+        return workspaceFolder.flaky();
+    }
+
+    workspaceFolder.executeCommand({
         command,
         arguments: args,
     });
+
+    return undefined;
 });
 
 /*
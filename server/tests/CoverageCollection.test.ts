@@ -0,0 +1,41 @@
+import { CoverageCollection } from '../src/CoverageCollection';
+import { fixturePath, projectPath } from './helpers';
+import { PathMapping } from '../src/PathMapping';
+import { readFileSync } from 'fs';
+
+describe('CoverageCollection', () => {
+    const xml = readFileSync(fixturePath('clover.xml').fsPath).toString();
+
+    it('parse line coverage', () => {
+        const coverages = new CoverageCollection().parse(xml);
+
+        expect(coverages.all().map(coverage => coverage.uri)).toEqual([
+            'file:///project-sub/src/Item.php',
+            'file:///project-sub/src/Calculator.php',
+        ]);
+        expect(coverages.get('file:///project-sub/src/Calculator.php')).toEqual(
+            {
+                uri: 'file:///project-sub/src/Calculator.php',
+                covered: [10, 15],
+                uncovered: [20],
+                methods: 3,
+                coveredMethods: 2,
+            }
+        );
+    });
+
+    it('map remote paths to the workspace', () => {
+        const cwd = projectPath('').fsPath;
+        const coverages = new CoverageCollection().parse(
+            xml,
+            new PathMapping(cwd, '/project-sub')
+        );
+
+        expect(
+            coverages.get(projectPath('src/Calculator.php').toString())
+        ).toMatchObject({
+            covered: [10, 15],
+            uncovered: [20],
+        });
+    });
+});
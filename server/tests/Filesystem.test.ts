@@ -86,10 +86,14 @@ describe('Filesystem', () => {
             'src/Item.php',
             'tests/AbstractTest.php',
             'tests/AssertionsTest.php',
+            'tests/AttributesTest.php',
             'tests/bootstrap.php',
             'tests/CalculatorTest.php',
+            'tests/Directory/ExtendsAbstractTest.php',
+            'tests/Directory/GroupTest.php',
             'tests/Directory/HasPropertyTest.php',
             'tests/Directory/LeadingCommentsTest.php',
+            'tests/Directory/MultipleClassesTest.php',
             'tests/Directory/UseTraitTest.php',
             'tests/StaticMethodTest.php',
         ]);
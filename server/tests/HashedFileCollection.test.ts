@@ -0,0 +1,56 @@
+import files from '../src/Filesystem';
+import { HashedFile, HashedFileCollection } from '../src/HashedFileCollection';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+interface CountedFile extends HashedFile {
+    count: number;
+}
+
+describe('HashedFileCollection', () => {
+    const testFile = join(tmpdir(), 'phpunit-lsp-HashedTest.php');
+    const parentFile = join(tmpdir(), 'phpunit-lsp-BaseHashedTest.php');
+    const storeFile = join(tmpdir(), 'phpunit-lsp-hashed-test.json');
+
+    async function count(collection: HashedFileCollection<CountedFile>) {
+        const item = await collection.put(testFile, [parentFile], () => ({
+            count: 0,
+        }));
+
+        return ++item.count;
+    }
+
+    beforeEach(async () => {
+        await files.put(testFile, '<?php class HashedTest {}');
+        await files.put(parentFile, '<?php class BaseHashedTest {}');
+    });
+
+    afterAll(async () => {
+        await files.unlink(testFile);
+        await files.unlink(parentFile);
+        await files.unlink(storeFile);
+    });
+
+    it('keep an item while its files are unchanged', async () => {
+        const collection = new HashedFileCollection<CountedFile>();
+        await count(collection);
+        await collection.save(storeFile);
+
+        const loaded = await new HashedFileCollection<CountedFile>().load(
+            storeFile
+        );
+
+        expect(await loaded.isChanged(testFile)).toBeFalsy();
+        expect(await count(loaded)).toEqual(2);
+    });
+
+    it('replace an item when a dependency changed', async () => {
+        const collection = new HashedFileCollection<CountedFile>();
+        await count(collection);
+        await files.put(parentFile, '<?php class BaseHashedTest { }');
+
+        expect(await collection.isChanged(testFile)).toBeTruthy();
+        expect(await count(collection)).toEqual(1);
+        expect(collection.files()).toEqual([testFile]);
+    });
+});
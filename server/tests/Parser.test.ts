@@ -2,7 +2,7 @@ import files from '../src/Filesystem';
 import Parser from '../src/Parser';
 import URI from 'vscode-uri';
 import { projectPath } from './helpers';
-import { TestSuiteNode } from '../src/TestNode';
+import { DataSetNode, TestNode, TestSuiteNode } from '../src/TestNode';
 import { TextDocument } from 'vscode-languageserver-protocol';
 
 describe('Parser', () => {
@@ -23,7 +23,7 @@ describe('Parser', () => {
     const getTestSuite = async (
         testfile: URI = file
     ): Promise<TestSuiteNode | undefined> => {
-        return await parser.parse(testfile);
+        return (await parser.parse(testfile))[0];
     };
 
     const getTest = (suite: TestSuiteNode, options: any = {}) => {
@@ -198,11 +198,99 @@ describe('Parser', () => {
         );
     });
 
+    it('static data sets', async () => {
+        const suite = await getTestSuite();
+        const test = getTest(suite, { id: getId('addition_provider') });
+
+        expect(test.dataProviders).toEqual(['additionProvider']);
+        expect(test.dataSets.map((dataSet: TestNode) => dataSet.id)).toEqual([
+            getId('addition_provider with data set #0'),
+            getId('addition_provider with data set #1'),
+            getId('addition_provider with data set #2'),
+        ]);
+    });
+
+    it('named data sets', async () => {
+        const suite = await getTestSuite();
+        const test = getTest(suite, { id: getId('test_named_data_set') });
+
+        expect(
+            test.dataSets.map((dataSet: DataSetNode) => dataSet.label)
+        ).toEqual(['with data set "first"', 'with data set "second"']);
+    });
+
+    it('attributes', async () => {
+        const file = projectPath('tests/AttributesTest.php');
+        const suite = await getTestSuite(file);
+        const id = (method: string) =>
+            getId(method, 'Recca0120\\VSCode\\Tests\\AttributesTest');
+
+        expect(suite.label).toEqual('Calculator attributes');
+        expect(suite.children.map(test => test.id)).toEqual([
+            id('it_should_be_true'),
+            id('it_depends'),
+            id('it_adds'),
+        ]);
+
+        const test = getTest(suite, { id: id('it_depends') });
+        expect(test.label).toEqual('It depends on another test');
+        expect(test.depends).toEqual(['it_should_be_true']);
+        expect(getTest(suite, { id: id('it_should_be_true') }).groups).toEqual([
+            'math',
+        ]);
+        expect(
+            getTest(suite, { id: id('it_adds') }).dataSets.map(
+                (dataSet: DataSetNode) => dataSet.label
+            )
+        ).toEqual(['with data set #0', 'with data set #1']);
+    });
+
+    it('groups', async () => {
+        const file = projectPath('tests/Directory/GroupTest.php');
+        const suite = await getTestSuite(file);
+        const id = (method: string) =>
+            getId(method, 'Recca0120\\VSCode\\Tests\\Directory\\GroupTest');
+
+        expect(suite.groups).toEqual(['slow']);
+        expect(getTest(suite, { id: id('test_database') }).groups).toEqual([
+            'database',
+            'slow',
+        ]);
+        expect(getTest(suite, { id: id('test_slow') }).groups).toEqual([
+            'slow',
+        ]);
+    });
+
     it('abstract class', async () => {
         const file = projectPath('tests/AbstractTest.php');
-        const suite = await getTestSuite(file);
 
-        expect(suite).toBeUndefined();
+        expect(await parser.parse(file)).toEqual([]);
+    });
+
+    it('multiple classes', async () => {
+        const file = projectPath('tests/Directory/MultipleClassesTest.php');
+        const suites = await parser.parse(file);
+
+        expect(suites.map(suite => suite.id)).toEqual([
+            'Recca0120\\VSCode\\Tests\\Directory\\MultipleClassesTest',
+            'Recca0120\\VSCode\\Tests\\Directory\\SecondClassTest',
+        ]);
+
+        const label = 'test_second_class';
+        const id = getId(
+            label,
+            'Recca0120\\VSCode\\Tests\\Directory\\SecondClassTest'
+        );
+
+        expect(getTest(suites[1], { id })).toEqual(
+            jasmine.objectContaining({
+                workspaceFolder,
+                id,
+                label,
+                file: file.toString(),
+                line: jasmine.any(Number),
+            })
+        );
     });
 
     it('static method', async () => {
@@ -236,7 +324,7 @@ describe('Parser', () => {
                 1,
                 await files.get(file)
             )
-        );
+        )[0];
 
         const label = 'test_passed';
         const id = getId(label);
@@ -297,6 +385,59 @@ describe('Parser', () => {
         );
     });
 
+    it('trait methods', async () => {
+        const file = projectPath('tests/Directory/UseTraitTest.php');
+        const suite = await getTestSuite(file);
+
+        const label = 'test_trait_method';
+        const id = getId(
+            label,
+            'Recca0120\\VSCode\\Tests\\Directory\\UseTraitTest'
+        );
+        const test = getTest(suite, { id });
+
+        expect(test).toEqual(
+            jasmine.objectContaining({
+                id,
+                label,
+                file: file.toString(),
+                declaringFile: file.toString(),
+                declaringClass: 'Recca0120\\VSCode\\Tests\\Directory\\UseTrait',
+            })
+        );
+    });
+
+    it('inherited methods from abstract class', async () => {
+        const abstractFile = projectPath('tests/AbstractTest.php');
+        const file = projectPath('tests/Directory/ExtendsAbstractTest.php');
+
+        await parser.parse(abstractFile);
+        const suite = await getTestSuite(file);
+
+        const label = 'test_abstract';
+        const id = getId(
+            label,
+            'Recca0120\\VSCode\\Tests\\Directory\\ExtendsAbstractTest'
+        );
+        const test = getTest(suite, { id });
+
+        expect(test).toEqual(
+            jasmine.objectContaining({
+                id,
+                label,
+                file: file.toString(),
+                declaringFile: abstractFile.toString(),
+                declaringClass: 'Recca0120\\VSCode\\Tests\\AbstractTest',
+            })
+        );
+        expect(test.asCodeLens().command).toEqual({
+            title: 'Run Test (ExtendsAbstractTest)',
+            command: 'phpunit.lsp.run-test-at-cursor',
+            arguments: [workspaceFolder.toString(), id],
+        });
+        expect(suite.exportCodeLens().length).toEqual(4);
+    });
+
     it('has property', async () => {
         const file = projectPath('tests/Directory/HasPropertyTest.php');
         const suite = await getTestSuite(file);
@@ -322,9 +463,7 @@ describe('Parser', () => {
     it('parse code error', () => {
         const parser = new Parser();
 
-        expect(
-            parser.parseCode('a"bcde', URI.parse('/usr/bin'))
-        ).toBeUndefined();
+        expect(parser.parseCode('a"bcde', URI.parse('/usr/bin'))).toEqual([]);
     });
 
     it('class as codelens', async () => {
@@ -357,4 +496,19 @@ describe('Parser', () => {
             },
         });
     });
+
+    it('method as debug codelens', async () => {
+        const suite = await getTestSuite();
+
+        const test = getTest(suite, { method: 'test_passed' });
+
+        expect(test.asDebugCodeLens()).toEqual({
+            range: test.range,
+            command: {
+                title: 'Debug Test',
+                command: 'phpunit.debug-test-at-cursor',
+                arguments: [workspaceFolder.toString(), test.id],
+            },
+        });
+    });
 });
@@ -0,0 +1,47 @@
+import { PathMapping } from '../src/PathMapping';
+
+describe('PathMapping', () => {
+    const mapping = new PathMapping('/home/user/project', '/app');
+
+    it('map local paths to remote paths', () => {
+        expect(
+            mapping.toRemote('/home/user/project/tests/FooTest.php')
+        ).toEqual('/app/tests/FooTest.php');
+        expect(mapping.toRemote('/home/user/project-sub/FooTest.php')).toEqual(
+            '/home/user/project-sub/FooTest.php'
+        );
+        expect(mapping.toRemote('--filter')).toEqual('--filter');
+    });
+
+    it('map remote paths in output to local paths', () => {
+        expect(
+            mapping.toLocal(
+                '1) FooTest::test_foo\n/app/tests/FooTest.php:12\n/application/x.php'
+            )
+        ).toEqual(
+            '1) FooTest::test_foo\n/home/user/project/tests/FooTest.php:12\n/application/x.php'
+        );
+    });
+
+    it('map with the longest matching prefix', () => {
+        const mappings = new PathMapping('/home/user/project', '/app')
+            .add('/home/user/project/vendor', '/opt/vendor')
+            .add('/home/user/shared', '/mnt/shared');
+
+        expect(
+            mappings.toRemote('/home/user/project/vendor/bin/phpunit')
+        ).toEqual('/opt/vendor/bin/phpunit');
+        expect(mappings.toRemote('/home/user/shared/Helper.php')).toEqual(
+            '/mnt/shared/Helper.php'
+        );
+        expect(
+            mappings.toLocal('/opt/vendor/a.php:1\n/app/b.php:2\n/mnt/shared')
+        ).toEqual(
+            '/home/user/project/vendor/a.php:1\n/home/user/project/b.php:2\n/home/user/shared'
+        );
+    });
+
+    it('without mapping', () => {
+        expect(new PathMapping().toLocal('/app/tests')).toEqual('/app/tests');
+    });
+});
@@ -0,0 +1,115 @@
+import { join } from 'path';
+import { PhpUnitXml } from '../src/PhpUnitXml';
+import { projectPath } from './helpers';
+
+describe('PhpUnitXml', () => {
+    const root = projectPath('').fsPath;
+    const file = join(root, 'phpunit.xml');
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<phpunit>
+    <testsuites>
+        <testsuite name="Unit">
+            <directory suffix="Test.php">./tests</directory>
+            <exclude>./tests/Directory</exclude>
+        </testsuite>
+        <testsuite name="Directory">
+            <directory prefix="Has" suffix="Test.php">./tests/Directory</directory>
+            <file>./tests/Directory/UseTraitTest.php</file>
+        </testsuite>
+    </testsuites>
+</phpunit>`;
+
+    it('load phpunit.xml', async () => {
+        const phpUnitXml = await new PhpUnitXml().load({ cwd: root });
+
+        expect(phpUnitXml.getFile()).toEqual(file);
+        expect(phpUnitXml.getTestSuites()).toEqual([
+            {
+                name: 'Package Test Suite',
+                directories: [
+                    {
+                        path: join(root, 'tests'),
+                        prefix: '',
+                        suffix: 'Test.php',
+                    },
+                ],
+                files: [],
+                excludes: [],
+            },
+        ]);
+    });
+
+    it('coverage clover', async () => {
+        const phpUnitXml = await new PhpUnitXml().load({ cwd: root });
+
+        expect(phpUnitXml.getCoverageClover()).toEqual(
+            join(root, 'build/coverage.xml')
+        );
+        expect(
+            new PhpUnitXml()
+                .parse(
+                    `<phpunit><coverage><report><clover outputFile="clover.xml"/></report></coverage></phpunit>`,
+                    file
+                )
+                .getCoverageClover()
+        ).toEqual(join(root, 'clover.xml'));
+    });
+
+    it('without phpunit.xml', async () => {
+        const phpUnitXml = await new PhpUnitXml().load({ cwd: '/' });
+
+        expect(phpUnitXml.hasTestSuites()).toBeFalsy();
+    });
+
+    it('patterns', () => {
+        const phpUnitXml = new PhpUnitXml().parse(xml, file);
+
+        expect(phpUnitXml.getPatterns()).toEqual([
+            `${join(root, 'tests')}/**/*.php`,
+            `${join(root, 'tests/Directory')}/**/*.php`,
+            join(root, 'tests/Directory/UseTraitTest.php'),
+        ]);
+    });
+
+    it('test suites of file', () => {
+        const phpUnitXml = new PhpUnitXml().parse(xml, file);
+        const testSuitesOf = (path: string) =>
+            phpUnitXml.testSuitesOf(join(root, path));
+
+        expect(testSuitesOf('tests/AssertionsTest.php')).toEqual(['Unit']);
+        expect(testSuitesOf('tests/bootstrap.php')).toEqual([]);
+        expect(testSuitesOf('tests/Directory/HasPropertyTest.php')).toEqual([
+            'Directory',
+        ]);
+        expect(testSuitesOf('tests/Directory/UseTraitTest.php')).toEqual([
+            'Directory',
+        ]);
+        expect(testSuitesOf('tests/Directory/LeadingCommentsTest.php')).toEqual(
+            []
+        );
+    });
+
+    it('overlapping test suites of file', () => {
+        const phpUnitXml = new PhpUnitXml().parse(
+            `<phpunit>
+    <testsuites>
+        <testsuite name="All">
+            <directory>./tests</directory>
+        </testsuite>
+        <testsuite name="Directory">
+            <directory>./tests/Directory</directory>
+        </testsuite>
+    </testsuites>
+</phpunit>`,
+            file
+        );
+        const testSuitesOf = (path: string) =>
+            phpUnitXml.testSuitesOf(join(root, path));
+
+        expect(testSuitesOf('tests/AssertionsTest.php')).toEqual(['All']);
+        expect(testSuitesOf('tests/Directory/HasPropertyTest.php')).toEqual([
+            'All',
+            'Directory',
+        ]);
+    });
+});
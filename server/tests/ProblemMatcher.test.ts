@@ -62,7 +62,7 @@ describe('OutputProblemMatcher', () => {
 
         it('addition_provider', () => {
             const id =
-                'Recca0120\\VSCode\\Tests\\AssertionsTest::addition_provider';
+                'Recca0120\\VSCode\\Tests\\AssertionsTest::addition_provider with data set #2';
             const problem = getProblem(id);
 
             expect(problem).toMatchObject({
@@ -71,6 +71,7 @@ describe('OutputProblemMatcher', () => {
                 namespace: 'Recca0120\\VSCode\\Tests',
                 class: 'AssertionsTest',
                 method: 'addition_provider',
+                dataSet: '#2',
                 status: Status.FAILURE,
                 file: testFile,
                 line: 58,
@@ -0,0 +1,59 @@
+import { ProblemNode } from '../src/ProblemNode';
+
+describe('ProblemNode', () => {
+    function createProblem(message: string) {
+        return Object.assign(new ProblemNode(), { message });
+    }
+
+    it('extract expected and actual from a diff', () => {
+        const problem = createProblem(`Failed asserting that two arrays are identical.
+--- Expected
++++ Actual
+@@ @@
+ Array &0 (
+-    'a' => 'b'
+-    'c' => 'd'
++    'e' => 'f'
++    0 => 'g'
+ )
+`).updateComparison();
+
+        expect(problem.expected).toEqual(`Array &0 (
+    'a' => 'b'
+    'c' => 'd'
+)`);
+        expect(problem.actual).toEqual(`Array &0 (
+    'e' => 'f'
+    0 => 'g'
+)`);
+    });
+
+    it('extract expected and actual from a scalar comparison', () => {
+        const problem = createProblem(
+            'Failed asserting that 4 is identical to 3.\n'
+        ).updateComparison();
+
+        expect(problem.expected).toEqual('3');
+        expect(problem.actual).toEqual('4');
+    });
+
+    it('send the comparison with the test event', () => {
+        const problem = createProblem(
+            'Failed asserting that 1 matches expected 2.\n'
+        ).updateComparison();
+
+        expect(problem.asTestEvent()).toMatchObject({
+            expected: '2',
+            actual: '1',
+        });
+    });
+
+    it('without comparison', () => {
+        const problem = createProblem(
+            'Failed asserting that false is true.\n'
+        ).updateComparison();
+
+        expect(problem.expected).toBeUndefined();
+        expect(problem.actual).toBeUndefined();
+    });
+});
@@ -48,6 +48,40 @@ describe('Process', () => {
         }, 100);
     });
 
+    it('kill detached process tree', async () => {
+        const process = new Process();
+        const running = process.run(
+            {
+                title: '',
+                command: 'sh',
+                arguments: ['-c', 'sleep 5 & sleep 5; wait'],
+            },
+            { detached: true }
+        );
+
+        expect(process.kill()).toBeTruthy();
+        await expect(running).rejects.toEqual('killed');
+    });
+
+    it('emit output lines', async () => {
+        const process = new Process();
+        const lines: string[] = [];
+
+        const response = await process
+            .onLine(line => lines.push(line))
+            .run({
+                title: 'node',
+                command: global.process.execPath,
+                arguments: [
+                    '-e',
+                    "process.stdout.write('foo\\nba'); setTimeout(() => console.log('r'), 10); console.error('baz')",
+                ],
+            });
+
+        expect(response).toContain('foo');
+        expect(lines.sort()).toEqual(['bar', 'baz', 'foo']);
+    });
+
     it('command not found', async () => {
         const process = new Process();
         const response = await process.run({
@@ -0,0 +1,28 @@
+import { TeamcityParser } from '../src/TeamcityParser';
+
+describe('TeamcityParser', () => {
+    const parser = new TeamcityParser();
+
+    it('parse service message', () => {
+        expect(
+            parser.parse(
+                "##teamcity[testFailed name='test_failed' message='It|'s |[not|] ok|n' details='' flowId='1']"
+            )
+        ).toEqual({
+            name: 'testFailed',
+            attributes: {
+                name: 'test_failed',
+                message: "It's [not] ok\n",
+                details: '',
+                flowId: '1',
+            },
+        });
+    });
+
+    it('ignore other lines', () => {
+        expect(parser.isServiceMessage('F.S.  4 / 4 (100%)')).toBeFalsy();
+        expect(
+            parser.parse('Time: 00:00.011, Memory: 6.00 MB')
+        ).toBeUndefined();
+    });
+});
@@ -0,0 +1,114 @@
+import { fixturePath, projectPath } from './helpers';
+import { readFileSync } from 'fs';
+import { Status } from '../src/ProblemNode';
+import { TeamcityProblemMatcher } from '../src/TeamcityProblemMatcher';
+import { TestSuiteCollection } from '../src/TestSuiteCollection';
+
+describe('TeamcityProblemMatcher', () => {
+    const contents: string = readFileSync(
+        fixturePath('teamcity.txt').fsPath
+    ).toString('UTF-8');
+    const suites = new TestSuiteCollection();
+    const problemMatcher = new TeamcityProblemMatcher(suites);
+    const id = (method: string) =>
+        `Recca0120\\VSCode\\Tests\\AssertionsTest::${method}`;
+
+    let problems: any[] = [];
+
+    function getProblem(id: string) {
+        return problems.find(problem => problem.id === id);
+    }
+
+    beforeAll(async () => {
+        await suites.load('**/*.php', { cwd: projectPath('tests').fsPath });
+    });
+
+    beforeEach(async () => {
+        problems = await problemMatcher.parse(contents);
+    });
+
+    it('report every test', () => {
+        expect(problems.map(problem => problem.id)).toEqual([
+            id('test_passed'),
+            id('test_failed'),
+            id('test_skipped'),
+            id('addition_provider with data set #0'),
+        ]);
+    });
+
+    it('test_passed', () => {
+        expect(getProblem(id('test_passed'))).toMatchObject({
+            namespace: 'Recca0120\\VSCode\\Tests',
+            class: 'AssertionsTest',
+            method: 'test_passed',
+            status: Status.PASSED,
+            file: '/project-sub/tests/AssertionsTest.php',
+            line: 11,
+            message: '',
+            files: [],
+        });
+    });
+
+    it('test_failed', () => {
+        expect(getProblem(id('test_failed'))).toMatchObject({
+            method: 'test_failed',
+            status: Status.FAILURE,
+            file: '/project-sub/tests/AssertionsTest.php',
+            line: 21,
+            message: 'Failed asserting that false is true.\n',
+            files: [],
+        });
+    });
+
+    it('test_skipped', () => {
+        expect(getProblem(id('test_skipped'))).toMatchObject({
+            status: Status.SKIPPED,
+            line: 42,
+            message: 'The MySQLi extension is not available.\n',
+        });
+    });
+
+    it('comparison failure', async () => {
+        const [problem] = await problemMatcher.parse(
+            [
+                "##teamcity[testStarted name='test_isnt_same' locationHint='php_qn:///project-sub/tests/AssertionsTest.php::\\Recca0120\\VSCode\\Tests\\AssertionsTest::test_isnt_same' flowId='1']",
+                "##teamcity[testFailed name='test_isnt_same' message='Failed asserting that two arrays are identical.' details=' /project-sub/tests/AssertionsTest.php:27|n ' type='comparisonFailure' actual='Array &0 (|n    |'e|' => |'f|'|n)' expected='Array &0 (|n    |'a|' => |'b|'|n)' flowId='1']",
+                "##teamcity[testFinished name='test_isnt_same' duration='1' flowId='1']",
+            ].join('\n')
+        );
+
+        expect(problem).toMatchObject({
+            status: Status.FAILURE,
+            line: 26,
+            expected: "Array &0 (\n    'a' => 'b'\n)",
+            actual: "Array &0 (\n    'e' => 'f'\n)",
+        });
+    });
+
+    it('error', async () => {
+        const [problem] = await problemMatcher.parse(
+            [
+                "##teamcity[testStarted name='test_throw_exception' locationHint='php_qn:///project-sub/tests/AssertionsTest.php::\\Recca0120\\VSCode\\Tests\\AssertionsTest::test_throw_exception' flowId='1']",
+                "##teamcity[testFailed name='test_throw_exception' message='Exception : Oops' details=' /project-sub/tests/AssertionsTest.php:62|n ' duration='0' flowId='1']",
+                "##teamcity[testFinished name='test_throw_exception' duration='0' flowId='1']",
+            ].join('\n')
+        );
+
+        expect(problem).toMatchObject({
+            status: Status.ERROR,
+            line: 61,
+            message: 'Exception : Oops\n',
+        });
+    });
+
+    it('addition_provider', () => {
+        expect(
+            getProblem(id('addition_provider with data set #0'))
+        ).toMatchObject({
+            method: 'addition_provider',
+            dataSet: '#0',
+            status: Status.PASSED,
+            line: 56,
+        });
+    });
+});
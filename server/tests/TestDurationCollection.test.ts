@@ -0,0 +1,34 @@
+import { TestDurationCollection } from '../src/TestDurationCollection';
+
+describe('TestDurationCollection', () => {
+    let durations: TestDurationCollection;
+
+    beforeEach(() => {
+        durations = new TestDurationCollection();
+    });
+
+    it('put test cases', () => {
+        durations.putTestCases([
+            { id: 'FooTest::test_foo', state: 'passed', time: 0.0125 },
+        ]);
+
+        expect(durations.get('FooTest::test_foo')).toEqual(12.5);
+    });
+
+    it('slowest', () => {
+        durations
+            .put('FooTest::test_foo', 10)
+            .put('FooTest::test_bar', 1500)
+            .put('FooTest::test_baz', 300);
+
+        expect(durations.slowest(2)).toEqual([
+            ['FooTest::test_bar', 1500],
+            ['FooTest::test_baz', 300],
+        ]);
+    });
+
+    it('format', () => {
+        expect(durations.format(12.5)).toEqual('13 ms');
+        expect(durations.format(1520)).toEqual('1.52 s');
+    });
+});
@@ -21,7 +21,7 @@ describe('TestEventCollection', () => {
     });
 
     it('put test info', async () => {
-        const suite = suites.get(projectPath('tests/AssertionsTest.php'));
+        const suite = suites.get(projectPath('tests/AssertionsTest.php'))[0];
 
         events.put(suite.children[0]);
 
@@ -35,7 +35,9 @@ describe('TestEventCollection', () => {
 
     describe('put test suite info', () => {
         beforeAll(async () => {
-            const suite = suites.get(projectPath('tests/AssertionsTest.php'));
+            const suite = suites.get(
+                projectPath('tests/AssertionsTest.php')
+            )[0];
 
             events.put(suite);
         });
@@ -62,7 +64,9 @@ describe('TestEventCollection', () => {
 
     describe('modify test suite info', () => {
         beforeAll(async () => {
-            const suite = suites.get(projectPath('tests/AssertionsTest.php'));
+            const suite = suites.get(
+                projectPath('tests/AssertionsTest.php')
+            )[0];
 
             events.put(suite);
         });
@@ -108,7 +112,7 @@ describe('TestEventCollection', () => {
 
         it('put problem', () => {
             const id =
-                'Recca0120\\VSCode\\Tests\\AssertionsTest::addition_provider';
+                'Recca0120\\VSCode\\Tests\\AssertionsTest::addition_provider with data set #2';
             const problem = findProblem(id);
 
             events.put(problem);
@@ -0,0 +1,72 @@
+import { fixturePath } from './helpers';
+import { readFileSync } from 'fs';
+import { TestProgress } from '../src/TestProgress';
+
+describe('TestProgress', () => {
+    const contents: string = readFileSync(
+        fixturePath('teamcity.txt').fsPath
+    ).toString('UTF-8');
+    const id = (method: string) =>
+        `Recca0120\\VSCode\\Tests\\AssertionsTest::${method}`;
+
+    it('emit test events as tests finish', () => {
+        const progress = new TestProgress();
+        const events = contents
+            .split(/\r\n|\r|\n/g)
+            .map(line => progress.put(line))
+            .filter(event => !!event);
+
+        expect(events).toEqual([
+            { type: 'test', test: id('test_passed'), state: 'passed' },
+            {
+                type: 'test',
+                test: id('test_failed'),
+                state: 'failed',
+                message:
+                    'Failed asserting that false is true.\n /project-sub/tests/AssertionsTest.php:22\n ',
+            },
+            {
+                type: 'test',
+                test: id('test_skipped'),
+                state: 'skipped',
+                message: 'The MySQLi extension is not available.',
+            },
+            {
+                type: 'test',
+                test: id('addition_provider with data set #0'),
+                state: 'passed',
+            },
+        ]);
+
+        expect(progress.toJSON()).toEqual({
+            total: 4,
+            completed: 4,
+            passed: 2,
+            failed: 1,
+            skipped: 1,
+        });
+    });
+
+    it('durations', () => {
+        const progress = new TestProgress();
+
+        contents.split(/\r\n|\r|\n/g).forEach(line => progress.put(line));
+
+        expect(progress.getDuration(id('test_passed'))).toEqual(3);
+        expect(progress.getDuration(id('test_failed'))).toEqual(1);
+    });
+
+    it('reset', () => {
+        const progress = new TestProgress();
+
+        contents.split(/\r\n|\r|\n/g).forEach(line => progress.put(line));
+
+        expect(progress.reset().toJSON()).toEqual({
+            total: 0,
+            completed: 0,
+            passed: 0,
+            failed: 0,
+            skipped: 0,
+        });
+    });
+});
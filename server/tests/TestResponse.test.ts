@@ -2,7 +2,12 @@ import files from '../src/Filesystem';
 import { fixturePath } from './helpers';
 import { OutputProblemMatcher } from '../src/OutputProblemMatcher';
 import { ProblemNode, Status } from '../src/ProblemNode';
-import { TestResponse, TestResult } from '../src/TestResponse';
+import {
+    AggregateTestResponse,
+    JUnitTestResponse,
+    TestResponse,
+    TestResult,
+} from '../src/TestResponse';
 
 describe('TestResponse', () => {
     const problemMatcher = new OutputProblemMatcher();
@@ -92,6 +97,15 @@ Tests: 3, Assertions: 2, Skipped: 1.
             expect(testResponse.toString()).toEqual(output);
         });
 
+        it('strip service messages', () => {
+            const response = new TestResponse(
+                "##teamcity[testCount count='1' flowId='1']\nOK (1 test, 1 assertion)",
+                problemMatcher
+            );
+
+            expect(response.toString()).toEqual('OK (1 test, 1 assertion)');
+        });
+
         it('test_sum_item_method_not_call', async () => {
             problems = await testResponse.asProblems();
             expect(problems[0]).toMatchObject({
@@ -109,4 +123,124 @@ Tests: 3, Assertions: 2, Skipped: 1.
             });
         });
     });
+
+    describe('JUnit', () => {
+        const id = (method: string) =>
+            `Recca0120\\VSCode\\Tests\\AssertionsTest::${method}`;
+        let response: JUnitTestResponse;
+
+        beforeAll(async () => {
+            response = new JUnitTestResponse(
+                await files.get(fixturePath('junit.xml')),
+                'FAILURES!'
+            );
+        });
+
+        it('output', () => {
+            expect(response.toString()).toEqual('FAILURES!');
+        });
+
+        it('test result', () => {
+            expect(response.getTestResult()).toEqual({
+                tests: 7,
+                assertions: 6,
+                errors: 2,
+                failures: 2,
+                warnings: 0,
+                skipped: 1,
+                incomplete: 0,
+                risky: 1,
+            });
+        });
+
+        it('test cases', () => {
+            expect(response.getTestCases()).toEqual([
+                { id: id('test_passed'), state: 'passed', time: 0.00102 },
+                { id: id('test_failed'), state: 'failed', time: 0.0025 },
+                { id: id('test_risky'), state: 'failed', time: 0.0004 },
+                { id: id('test_skipped'), state: 'skipped', time: 0.0001 },
+                {
+                    id: id('addition_provider with data set #0'),
+                    state: 'passed',
+                    time: 0.0003,
+                },
+                {
+                    id: id('addition_provider with data set #2'),
+                    state: 'failed',
+                    time: 0.0006,
+                },
+                {
+                    id:
+                        'Recca0120\\VSCode\\Tests\\CalculatorTest::test_throw_exception',
+                    state: 'errored',
+                    time: 0.009344,
+                },
+            ]);
+        });
+
+        it('problems', async () => {
+            const problems = await response.asProblems();
+
+            expect(problems.map(problem => problem.id)).toEqual([
+                id('test_failed'),
+                id('test_risky'),
+                id('test_skipped'),
+                id('addition_provider with data set #2'),
+                'Recca0120\\VSCode\\Tests\\CalculatorTest::test_throw_exception',
+            ]);
+
+            expect(problems[0]).toMatchObject({
+                namespace: 'Recca0120\\VSCode\\Tests',
+                class: 'AssertionsTest',
+                method: 'test_failed',
+                status: Status.FAILURE,
+                file: '/project-sub/tests/AssertionsTest.php',
+                line: 21,
+                message: 'Failed asserting that false is true.\n',
+                files: [],
+            });
+
+            expect(problems[1].status).toEqual(Status.RISKY);
+
+            expect(problems[3]).toMatchObject({
+                method: 'addition_provider',
+                dataSet: '#2',
+                line: 57,
+            });
+
+            expect(problems[4]).toMatchObject({
+                status: Status.ERROR,
+                file: '/project-sub/tests/CalculatorTest.php',
+                line: 53,
+                message: 'Exception: <error>\n',
+                files: [{ file: '/project-sub/src/Calculator.php', line: 20 }],
+            });
+        });
+    });
+
+    describe('Aggregate', () => {
+        it('merge shard responses', async () => {
+            const junit = new JUnitTestResponse(
+                await files.get(fixturePath('junit.xml')),
+                'FAILURES!'
+            );
+            const output = new TestResponse(
+                'OK (2 tests, 3 assertions)',
+                problemMatcher
+            );
+            const response = new AggregateTestResponse([junit, output]);
+
+            expect(response.getTestResult()).toMatchObject({
+                tests: 9,
+                assertions: 9,
+                errors: 2,
+                failures: 2,
+            });
+            expect(response.getTestCases()).toEqual(junit.getTestCases());
+            expect(await response.asProblems()).toHaveLength(5);
+            expect(response.toString()).toEqual(
+                'FAILURES!\nOK (2 tests, 3 assertions)'
+            );
+        });
+    });
 });
@@ -0,0 +1,100 @@
+import files from '../src/Filesystem';
+import { join } from 'path';
+import { ProblemNode, Status } from '../src/ProblemNode';
+import { TestResultCache } from '../src/TestResultCache';
+import { tmpdir } from 'os';
+
+describe('TestResultCache', () => {
+    const testFile = join(tmpdir(), 'phpunit-lsp-CacheTest.php');
+    const cacheFile = join(tmpdir(), 'phpunit-lsp-cache-test.json');
+    const id = 'Tests\\CacheTest::test_failed';
+    const problem = Object.assign(new ProblemNode(), {
+        id,
+        class: 'CacheTest',
+        method: 'test_failed',
+        status: Status.FAILURE,
+        file: testFile,
+        line: 5,
+        message: 'Failed asserting that false is true.\n',
+    });
+
+    beforeEach(async () => {
+        await files.put(testFile, '<?php class CacheTest {}');
+        await new TestResultCache()
+            .put(
+                testFile,
+                [{ type: 'test', test: id, state: 'failed' }],
+                [problem]
+            )
+            .then(cache => cache.save(cacheFile));
+    });
+
+    afterAll(async () => {
+        await files.unlink(testFile);
+        await files.unlink(cacheFile);
+    });
+
+    it('restore results', async () => {
+        const { events, problems } = await (await new TestResultCache().load(
+            cacheFile
+        )).restore();
+
+        expect(events).toEqual([{ type: 'test', test: id, state: 'failed' }]);
+        expect(problems[0]).toBeInstanceOf(ProblemNode);
+        expect(problems[0]).toMatchObject({
+            id,
+            status: Status.FAILURE,
+            file: testFile,
+            line: 5,
+        });
+    });
+
+    it('forget results when the test file changed', async () => {
+        await files.put(testFile, '<?php class CacheTest { }');
+
+        const { events, problems } = await (await new TestResultCache().load(
+            cacheFile
+        )).restore();
+
+        expect(events).toEqual([]);
+        expect(problems).toEqual([]);
+    });
+
+    it('forget results when the parent test class changed', async () => {
+        const parentFile = join(tmpdir(), 'phpunit-lsp-BaseCacheTest.php');
+        await files.put(parentFile, '<?php class BaseCacheTest {}');
+        await (await new TestResultCache().load(cacheFile))
+            .put(
+                testFile,
+                [{ type: 'test', test: id, state: 'failed' }],
+                [problem],
+                [parentFile]
+            )
+            .then(cache => cache.save(cacheFile));
+
+        await files.put(parentFile, '<?php class BaseCacheTest { }');
+
+        const { events, problems } = await (await new TestResultCache().load(
+            cacheFile
+        )).restore();
+        await files.unlink(parentFile);
+
+        expect(events).toEqual([]);
+        expect(problems).toEqual([]);
+    });
+
+    it('forget problems of passed tests', async () => {
+        const cache = await new TestResultCache().load(cacheFile);
+
+        await cache.put(
+            testFile,
+            [{ type: 'test', test: id, state: 'passed' }],
+            []
+        );
+
+        const { events, problems } = await cache.restore();
+
+        expect(events).toEqual([{ type: 'test', test: id, state: 'passed' }]);
+        expect(problems).toEqual([]);
+    });
+});
@@ -0,0 +1,102 @@
+import files from '../src/Filesystem';
+import { join } from 'path';
+import { TestEvent } from '../src/TestExplorer';
+import { TestRunHistory } from '../src/TestRunHistory';
+import { tmpdir } from 'os';
+
+describe('TestRunHistory', () => {
+    const testFile = join(tmpdir(), 'phpunit-lsp-HistoryTest.php');
+    const historyFile = join(tmpdir(), 'phpunit-lsp-history-test.json');
+    const id = 'Tests\\HistoryTest::test_flaky';
+
+    function event(state: TestEvent['state']): TestEvent {
+        return { type: 'test', test: id, state };
+    }
+
+    async function record(
+        history: TestRunHistory,
+        states: TestEvent['state'][],
+        size: number
+    ) {
+        for (const state of states) {
+            await history.put(testFile, [event(state)], size);
+        }
+    }
+
+    beforeEach(async () => {
+        await files.put(testFile, '<?php class HistoryTest {}');
+    });
+
+    afterAll(async () => {
+        await files.unlink(testFile);
+        await files.unlink(historyFile);
+    });
+
+    it('detect tests flipping between passed and failed', async () => {
+        const history = new TestRunHistory();
+
+        await record(history, ['passed', 'failed', 'passed', 'passed'], 10);
+
+        expect(history.get(id)).toEqual({
+            id,
+            file: testFile,
+            runs: 4,
+            failures: 1,
+            score: 2 / 3,
+        });
+        expect(history.flaky().map(test => test.id)).toEqual([id]);
+    });
+
+    it('do not report a test fixed once as flaky', async () => {
+        const history = new TestRunHistory();
+
+        await record(history, ['failed', 'failed', 'passed', 'passed'], 10);
+
+        expect(history.get(id)).toMatchObject({ runs: 4, score: 0 });
+        expect(history.flaky()).toEqual([]);
+    });
+
+    it('wait for enough runs before reporting a flaky test', async () => {
+        const history = new TestRunHistory();
+
+        await record(history, ['passed', 'failed', 'passed'], 10);
+
+        expect(history.get(id)).toMatchObject({ runs: 3, score: 0 });
+        expect(history.flaky()).toEqual([]);
+    });
+
+    it('keep the last runs only', async () => {
+        const history = new TestRunHistory();
+
+        await record(history, ['failed', 'passed', 'passed', 'passed'], 3);
+
+        expect(history.get(id)).toMatchObject({ runs: 3, score: 0 });
+        expect(history.flaky()).toEqual([]);
+    });
+
+    it('forget the history when the test file changed', async () => {
+        const history = new TestRunHistory();
+
+        await history.put(testFile, [event('failed')], 10);
+        await history.save(historyFile);
+        await files.put(testFile, '<?php class HistoryTest { }');
+
+        const loaded = await new TestRunHistory().load(historyFile);
+        await loaded.put(testFile, [event('passed')], 10);
+
+        expect(loaded.get(id)).toMatchObject({ runs: 1, score: 0 });
+    });
+
+    it('forget the history when the parent test class changed', async () => {
+        const parentFile = join(tmpdir(), 'phpunit-lsp-BaseHistoryTest.php');
+        await files.put(parentFile, '<?php class BaseHistoryTest {}');
+
+        const history = new TestRunHistory();
+        await history.put(testFile, [event('failed')], 10, [parentFile]);
+        await files.put(parentFile, '<?php class BaseHistoryTest { }');
+        await history.put(testFile, [event('passed')], 10, [parentFile]);
+        await files.unlink(parentFile);
+
+        expect(history.get(id)).toMatchObject({ runs: 1, score: 0 });
+    });
+});
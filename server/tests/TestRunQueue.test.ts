@@ -0,0 +1,125 @@
+import { TestRunner } from '../src/TestRunner';
+import { TestRunQueue } from '../src/TestRunQueue';
+
+describe('TestRunQueue', () => {
+    const deferred = () => {
+        let resolve!: () => void;
+        const promise = new Promise<void>(done => (resolve = done));
+
+        return { promise, resolve };
+    };
+
+    let testRunner: TestRunner;
+    let queue: TestRunQueue;
+
+    beforeEach(() => {
+        testRunner = new TestRunner();
+        queue = new TestRunQueue(testRunner);
+    });
+
+    it('queue runs one after another', async () => {
+        const first = deferred();
+        const order: string[] = [];
+
+        const running = queue.run('queue', async (_, id) => {
+            order.push(`start ${id}`);
+            await first.promise;
+            order.push(`end ${id}`);
+        });
+        const queued = queue.run('queue', async (runner, id) => {
+            order.push(`start ${id}`);
+            expect(runner).toBe(testRunner);
+        });
+
+        await Promise.resolve();
+        first.resolve();
+        await Promise.all([running, queued]);
+
+        expect(order).toEqual(['start 1', 'end 1', 'start 2']);
+    });
+
+    it('replace cancels the running test run', async () => {
+        const first = deferred();
+        spyOn(testRunner, 'cancel').and.callFake(() => {
+            first.resolve();
+
+            return true;
+        });
+
+        const running = queue.run('queue', () => first.promise);
+        await Promise.resolve();
+
+        const result = await queue.run('replace', async runner => runner);
+
+        expect(testRunner.cancel).toHaveBeenCalled();
+        expect(result).toBe(testRunner);
+        await running;
+    });
+
+    it('concurrent runs use their own test runner', async () => {
+        const first = deferred();
+        const runners: TestRunner[] = [];
+
+        const running = queue.run('concurrent', async runner => {
+            runners.push(runner);
+            await first.promise;
+        });
+        await queue.run('concurrent', async runner => {
+            runners.push(runner);
+        });
+        first.resolve();
+        await running;
+
+        expect(runners).toHaveLength(2);
+        expect(runners[0]).not.toBe(runners[1]);
+    });
+
+    it('cancel a test run by id', async () => {
+        const first = deferred();
+        const second = deferred();
+        const runners: TestRunner[] = [];
+        const ids: number[] = [];
+
+        const runs = [first, second].map(({ promise }) =>
+            queue.run('concurrent', async (runner, id) => {
+                runners.push(runner);
+                ids.push(id);
+                await promise;
+            })
+        );
+        await Promise.resolve();
+        runners.forEach(runner =>
+            spyOn(runner, 'cancel').and.returnValue(true)
+        );
+
+        expect(queue.cancel(ids[1])).toBeTruthy();
+        expect(runners[0].cancel).not.toHaveBeenCalled();
+        expect(runners[1].cancel).toHaveBeenCalled();
+
+        first.resolve();
+        second.resolve();
+        await Promise.all(runs);
+    });
+
+    it('skip queued test runs when cancelled', async () => {
+        const first = deferred();
+        const callback = jasmine.createSpy('callback');
+        spyOn(testRunner, 'cancel').and.returnValue(true);
+
+        const running = queue.run('queue', () => first.promise);
+        const queued = queue.run('queue', callback);
+
+        expect(queue.cancel()).toBeTruthy();
+        first.resolve();
+
+        expect(await queued).toBeUndefined();
+        expect(callback).not.toHaveBeenCalled();
+        await running;
+    });
+
+    it('rerun on the test runner of the last run', async () => {
+        await queue.run('concurrent', async () => {});
+
+        expect(queue.lastRunner()).toBe(testRunner);
+    });
+});
@@ -1,5 +1,8 @@
-import { Filesystem } from '../src/filesystem';
-import { Process } from '../src/process';
+import { Filesystem } from '../src/Filesystem';
+import { basename, dirname, resolve } from 'path';
+import { Process } from '../src/Process';
+import { fixturePath, projectPath } from './helpers';
+import { readdirSync } from 'fs';
 import { TestRunner } from '../src/TestRunner';
 
 describe('TestRunner', () => {
@@ -116,6 +119,295 @@ describe('TestRunner', () => {
             });
         });
 
+        it('run data set', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            const params = {
+                file: '/foo.php',
+                method: 'addition_provider',
+                dataSet: '"one (1)"',
+            };
+
+            await testRunner.run(params);
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--filter',
+                        '^.*::(addition_provider with data set "one \\(1\\)")( with data set .*)?$',
+                        params.file,
+                    ],
+                },
+                undefined
+            );
+        });
+
+        it('run testsuite', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            await testRunner.run({ testsuite: 'Package Test Suite' });
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--testsuite',
+                        'Package Test Suite',
+                    ],
+                },
+                undefined
+            );
+        });
+
+        it('run groups', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            await testRunner
+                .setExcludeGroups(['slow', 'database'])
+                .run({ groups: ['database'], excludeGroups: ['math'] });
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--group',
+                        'database',
+                        '--exclude-group',
+                        'math,slow',
+                    ],
+                },
+                undefined
+            );
+        });
+
+        it('run methods', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            await testRunner.setExcludeGroups(['slow']).run({
+                file: projectPath('tests/AssertionsTest.php'),
+                methods: [
+                    'Tests\\AssertionsTest::test_failed',
+                    'Tests\\AssertionsTest::addition_provider with data set #2',
+                ],
+            });
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--filter',
+                        '^(Tests\\\\AssertionsTest::test_failed|Tests\\\\AssertionsTest::addition_provider with data set #2)( with data set .*)?$',
+                        projectPath('tests/AssertionsTest.php').fsPath,
+                    ],
+                },
+                undefined
+            );
+        });
+
+        it('stream results', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            await testRunner.setStreamResults(true).run();
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--log-teamcity',
+                        'php://stderr',
+                    ],
+                },
+                undefined
+            );
+        });
+
+        it('teamcity', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            await testRunner
+                .setStreamResults(true)
+                .setTeamcity(true)
+                .run();
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: ['-c', 'phpunit.xml', '--teamcity'],
+                },
+                undefined
+            );
+        });
+
+        it('log junit', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+            spyOn(files, 'get').and.returnValue(Promise.resolve('<xml/>'));
+            spyOn(files, 'unlink').and.returnValue(Promise.resolve(true));
+            spyOn(files, 'rmdir').and.callThrough();
+
+            await testRunner.setLogJUnit(true).run();
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--log-junit',
+                        expect.stringMatching(
+                            /phpunit-lsp-\w+[\\/]phpunit-lsp\.xml$/
+                        ),
+                    ],
+                },
+                undefined
+            );
+            expect(testRunner.getJUnitLog()).toEqual('<xml/>');
+            expect(files.unlink).toHaveBeenCalledWith(
+                testRunner.getCommand().arguments![3]
+            );
+            expect(files.rmdir).toHaveBeenCalledWith(
+                dirname(testRunner.getCommand().arguments![3])
+            );
+        });
+
+        it('coverage clover', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+            spyOn(files, 'get').and.returnValue(Promise.resolve('<coverage/>'));
+            spyOn(files, 'unlink').and.returnValue(Promise.resolve(true));
+
+            await testRunner.setCoverage(true).run();
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'phpunit',
+                    arguments: [
+                        '-c',
+                        'phpunit.xml',
+                        '--coverage-clover',
+                        expect.stringMatching(
+                            /phpunit-lsp-\w+[\\/]phpunit-lsp\.clover\.xml$/
+                        ),
+                    ],
+                },
+                undefined
+            );
+            expect(testRunner.getCoverage()).toEqual('<coverage/>');
+        });
+
+        it('coverage clover configured in phpunit.xml', async () => {
+            spyOn(files, 'findup').and.returnValues(
+                'phpunit',
+                'phpunit.xml',
+                'phpunit.xml'
+            );
+            spyOn(files, 'get').and.returnValues(
+                Promise.resolve(
+                    '<phpunit><logging><log type="coverage-clover" target="clover.xml"/></logging></phpunit>'
+                ),
+                Promise.resolve('<coverage generated="1"/>'),
+                Promise.resolve('<coverage generated="2"/>')
+            );
+
+            await testRunner.run();
+
+            expect(files.get).toHaveBeenCalledWith(resolve('clover.xml'));
+            expect(testRunner.getCoverage()).toEqual(
+                '<coverage generated="2"/>'
+            );
+        });
+
+        it('debug with xdebug', async () => {
+            spyOn(files, 'findup').and.returnValues('phpunit', 'phpunit.xml');
+
+            await testRunner
+                .setDebug(true)
+                .setXdebugPort(9000)
+                .run();
+
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'php',
+                    arguments: [
+                        '-d',
+                        'xdebug.mode=debug',
+                        '-d',
+                        'xdebug.start_with_request=yes',
+                        '-d',
+                        'xdebug.client_port=9000',
+                        '-d',
+                        'xdebug.remote_enable=1',
+                        '-d',
+                        'xdebug.remote_autostart=1',
+                        '-d',
+                        'xdebug.remote_port=9000',
+                        'phpunit',
+                        '-c',
+                        'phpunit.xml',
+                    ],
+                },
+                {
+                    env: jasmine.objectContaining({
+                        XDEBUG_MODE: 'debug',
+                        XDEBUG_CONFIG:
+                            'idekey=VSCODE client_port=9000 remote_port=9000',
+                    }),
+                }
+            );
+        });
+
+        it('paratest', async () => {
+            spyOn(files, 'findup').and.returnValues(
+                'phpunit',
+                'phpunit.xml',
+                'paratest'
+            );
+
+            await testRunner
+                .setParaTest(true)
+                .setProcesses(4)
+                .setLogJUnit(true)
+                .run();
+
+            expect(files.findup).toHaveBeenCalledWith(
+                ['vendor/bin/paratest', 'paratest'],
+                undefined
+            );
+            expect(process.run).toHaveBeenCalledWith(
+                {
+                    title: 'PHPUnit LSP',
+                    command: 'paratest',
+                    arguments: [
+                        '--processes',
+                        '4',
+                        '-c',
+                        'phpunit.xml',
+                        '--log-junit',
+                        jasmine.any(String),
+                    ],
+                },
+                { detached: true, windowsHide: true }
+            );
+        });
+
         it('custom php, phpunit, args', async () => {
             spyOn(files, 'findup').and.returnValues('phpunit.ini');
 
@@ -137,6 +429,223 @@ describe('TestRunner', () => {
         });
     });
 
+    it('run in docker', async () => {
+        const cwd = projectPath('').fsPath;
+        const file = projectPath('tests/AssertionsTest.php').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary(projectPath('vendor/bin/phpunit'))
+            .setDocker({
+                binary: fixturePath('bin/docker').fsPath,
+                container: 'php',
+                workdir: '/app',
+            })
+            .run({ file }, { cwd });
+
+        expect(testRunner.getCommand()).toEqual({
+            title: 'PHPUnit LSP',
+            command: fixturePath('bin/docker').fsPath,
+            arguments: [
+                'exec',
+                '-i',
+                '-w',
+                '/app',
+                'php',
+                '/app/vendor/bin/phpunit',
+                '-c',
+                '/app/phpunit.xml',
+                '/app/tests/AssertionsTest.php',
+            ],
+        });
+        expect(testRunner.getOutput().trim()).toEqual(
+            [
+                'exec -i -w',
+                cwd,
+                'php',
+                projectPath('vendor/bin/phpunit').fsPath,
+                '-c',
+                projectPath('phpunit.xml').fsPath,
+                file,
+            ].join(' ')
+        );
+    });
+
+    it('read the junit log back from a docker container', async () => {
+        const cwd = projectPath('').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary(projectPath('vendor/bin/phpunit'))
+            .setLogJUnit(true)
+            .setDocker({
+                binary: fixturePath('bin/docker').fsPath,
+                container: 'php',
+                workdir: '/app',
+            })
+            .run({}, { cwd });
+
+        const args = testRunner.getCommand().arguments!;
+        const junitLog: string = args[args.indexOf('--log-junit') + 1];
+
+        expect(junitLog).toMatch(/^\/tmp\/phpunit-lsp-\w+-phpunit-lsp\.xml$/);
+        expect(testRunner.getJUnitLog().trim()).toEqual(
+            `exec -i -w ${cwd} php sh -c cat ${junitLog} 2>/dev/null; rm -f ${junitLog}`
+        );
+        expect(
+            readdirSync(cwd).filter(file => file.startsWith('.phpunit-lsp-'))
+        ).toEqual([]);
+    });
+
+    it('mount the log folder into a docker compose service', async () => {
+        const cwd = projectPath('').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary('phpunit')
+            .setLogJUnit(true)
+            .setDocker({
+                binary: fixturePath('bin/docker').fsPath,
+                service: 'app',
+                workdir: '/app',
+            })
+            .run({}, { cwd });
+
+        const args = testRunner.getCommand().arguments!;
+        const volume: string = args[args.indexOf('-v') + 1];
+        const logDirectory = volume.split(':')[0];
+
+        expect(volume).toEqual(
+            `${logDirectory}:/tmp/${basename(logDirectory)}`
+        );
+        expect(args[args.indexOf('--log-junit') + 1]).toEqual(
+            `/tmp/${basename(logDirectory)}/phpunit-lsp.xml`
+        );
+        expect(await files.exists(logDirectory)).toBeFalsy();
+    });
+
+    it('report a log folder that cannot be created', async () => {
+        spyOn(files, 'mkdtemp').and.returnValue(
+            Promise.reject(new Error('EROFS: read-only file system'))
+        );
+        spyOn(process, 'run');
+
+        expect(await testRunner.setLogJUnit(true).run()).toEqual(1);
+        expect(process.run).not.toHaveBeenCalled();
+        expect(testRunner.getOutput()).toEqual('EROFS: read-only file system');
+    });
+
+    it('run in docker compose', async () => {
+        const cwd = projectPath('').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary('phpunit')
+            .setDocker({
+                binary: fixturePath('bin/docker').fsPath,
+                service: 'app',
+                workdir: '/app',
+            })
+            .run({ file: projectPath('tests/AssertionsTest.php') }, { cwd });
+
+        expect(testRunner.getCommand().arguments).toEqual([
+            'compose',
+            'run',
+            '--rm',
+            '-T',
+            '-w',
+            '/app',
+            'app',
+            jasmine.stringMatching(/phpunit$/),
+            '-c',
+            '/app/phpunit.xml',
+            '/app/tests/AssertionsTest.php',
+        ]);
+    });
+
+    it('run over ssh', async () => {
+        const cwd = projectPath('').fsPath;
+        const file = projectPath('tests/AssertionsTest.php').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary('phpunit')
+            .setSsh({
+                binary: fixturePath('bin/ssh').fsPath,
+                host: 'example.com',
+                user: 'deploy',
+                port: 2222,
+                identity: '~/.ssh/id_rsa',
+                root: '/var/www/my project',
+            })
+            .run({ file }, { cwd });
+
+        expect(testRunner.getCommand().arguments).toEqual([
+            '-p',
+            '2222',
+            '-i',
+            '~/.ssh/id_rsa',
+            'deploy@example.com',
+            jasmine.stringMatching(
+                /^cd '\/var\/www\/my project' && \S*phpunit -c '\/var\/www\/my project\/phpunit.xml' '\/var\/www\/my project\/tests\/AssertionsTest.php'$/
+            ),
+        ]);
+        expect(testRunner.getOutput()).toContain(`'${file}'`);
+    });
+
+    it('read the logs back over ssh', async () => {
+        const cwd = projectPath('').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary('phpunit')
+            .setLogJUnit(true)
+            .setCoverage(true)
+            .setSsh({
+                binary: fixturePath('bin/ssh').fsPath,
+                host: 'example.com',
+                root: '/app',
+            })
+            .run({}, { cwd });
+
+        const command: string = testRunner.getCommand().arguments![1];
+        const [, junitLog] = command.match(/--log-junit (\S+)/)!;
+        const [, coverage] = command.match(/--coverage-clover (\S+)/)!;
+
+        expect(junitLog).toMatch(/^\/tmp\/phpunit-lsp-\w+-phpunit-lsp\.xml$/);
+        expect(coverage).toMatch(
+            /^\/tmp\/phpunit-lsp-\w+-phpunit-lsp\.clover\.xml$/
+        );
+        expect(testRunner.getJUnitLog().trim()).toEqual(
+            `example.com cd ${cwd} && sh -c 'cat ${junitLog} 2>/dev/null; rm -f ${junitLog}'`
+        );
+        expect(testRunner.getCoverage().trim()).toEqual(
+            `example.com cd ${cwd} && sh -c 'cat ${coverage} 2>/dev/null; rm -f ${coverage}'`
+        );
+    });
+
+    it('run with path mappings', async () => {
+        const cwd = projectPath('').fsPath;
+
+        await testRunner
+            .setPhpUnitBinary('phpunit')
+            .setPathMappings([
+                { local: '.', remote: '/vagrant' },
+                { local: 'tests', remote: '/home/vagrant/tests' },
+            ])
+            .run({ file: projectPath('tests/AssertionsTest.php') }, { cwd });
+
+        expect(testRunner.getCommand()).toEqual({
+            title: 'PHPUnit LSP',
+            command: jasmine.stringMatching(/phpunit$/),
+            arguments: [
+                '-c',
+                '/vagrant/phpunit.xml',
+                '/home/vagrant/tests/AssertionsTest.php',
+            ],
+        });
+    });
+
+    it('get testsuites', async () => {
+        expect(
+            await testRunner.getTestSuites({ cwd: projectPath('').fsPath })
+        ).toEqual(['Package Test Suite']);
+    });
+
     it('cancel', async () => {
         spyOn(process, 'kill');
         await testRunner.cancel();
@@ -0,0 +1,92 @@
+import { Process } from '../src/Process';
+import { TestRunner } from '../src/TestRunner';
+import { TestShardRunner } from '../src/TestShardRunner';
+
+describe('TestShardRunner', () => {
+    const durations: { [file: string]: number } = {
+        'a.php': 600,
+        'b.php': 300,
+        'c.php': 200,
+        'd.php': 100,
+    };
+
+    it('balance files by their recorded durations', () => {
+        const shards = new TestShardRunner().plan(
+            ['a.php', 'b.php', 'c.php', 'd.php'],
+            2,
+            file => durations[file]
+        );
+
+        expect(shards).toEqual([['a.php'], ['b.php', 'c.php', 'd.php']]);
+    });
+
+    it('never plan more shards than files', () => {
+        expect(
+            new TestShardRunner().plan(['a.php'], 4, file => durations[file])
+        ).toEqual([['a.php']]);
+    });
+
+    it('run every file of every shard', async () => {
+        const runners: TestRunner[] = [];
+        const shardRunner = new TestShardRunner(() => {
+            const process = new Process();
+            spyOn(process, 'run').and.returnValue('OK (1 test, 1 assertion)');
+
+            const testRunner = new TestRunner(process);
+            spyOn(testRunner, 'run').and.callThrough();
+            runners.push(testRunner);
+
+            return testRunner;
+        });
+
+        const results = await shardRunner.run(
+            [['/a.php'], ['/b.php', '/c.php']],
+            { testsuite: 'Unit', groups: ['slow'] },
+            {},
+            testRunner => testRunner.setPhpUnitBinary('phpunit')
+        );
+
+        expect(runners).toHaveLength(2);
+        expect(runners[1].run).toHaveBeenCalledWith(
+            { file: '/c.php', testsuite: undefined, groups: ['slow'] },
+            {}
+        );
+        expect(results.map(result => result.file)).toEqual([
+            '/a.php',
+            '/b.php',
+            '/c.php',
+        ]);
+        expect(results[0].output).toEqual('OK (1 test, 1 assertion)');
+        expect(results[2].command.arguments).toContain('/c.php');
+    });
+
+    it('cancel every shard', () => {
+        const runners: TestRunner[] = [];
+        const shardRunner = new TestShardRunner(() => {
+            const testRunner = new TestRunner();
+            spyOn(testRunner, 'run').and.returnValue(new Promise(() => {}));
+            spyOn(testRunner, 'cancel').and.returnValue(true);
+            runners.push(testRunner);
+
+            return testRunner;
+        });
+
+        shardRunner.run([['/a.php'], ['/b.php']], {}, {}, runner => runner);
+
+        expect(shardRunner.cancel()).toBeTruthy();
+        runners.forEach(testRunner => expect(testRunner.cancel).toBeCalled());
+    });
+
+    it('run nothing once cancelled', async () => {
+        const testRunner = new TestRunner();
+        spyOn(testRunner, 'run');
+        const shardRunner = new TestShardRunner(() => testRunner);
+
+        shardRunner.cancel();
+
+        expect(
+            await shardRunner.run([['/a.php']], {}, {}, runner => runner)
+        ).toEqual([]);
+        expect(testRunner.run).not.toBeCalled();
+    });
+});
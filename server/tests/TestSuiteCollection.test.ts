@@ -1,6 +1,10 @@
 import files from '../src/Filesystem';
+import { join } from 'path';
+import Parser from '../src/Parser';
+import { PhpUnitXml } from '../src/PhpUnitXml';
 import { projectPath } from './helpers';
 import { TestSuiteCollection } from '../src/TestSuiteCollection';
+import { TestSuiteInfo } from '../src/TestExplorer';
 import { TextDocument } from 'vscode-languageserver-protocol';
 
 describe('TestSuiteCollection', () => {
@@ -79,9 +83,115 @@ describe('TestSuiteCollection', () => {
 
         expect(
             await suites.get(projectPath('tests/AssertionsTest.php'))
+        ).toMatchObject([
+            {
+                id,
+                label,
+            },
+        ]);
+    });
+
+    it('get multiple classes', async () => {
+        const file = projectPath('tests/Directory/MultipleClassesTest.php');
+
+        expect(suites.get(file).map(suite => suite.id)).toEqual([
+            'Recca0120\\VSCode\\Tests\\Directory\\MultipleClassesTest',
+            'Recca0120\\VSCode\\Tests\\Directory\\SecondClassTest',
+        ]);
+        expect(suites.exportCodeLens(file).length).toEqual(8);
+        expect(suites.tree().children.map(suite => suite.id)).toEqual(
+            jasmine.arrayContaining([
+                'Recca0120\\VSCode\\Tests\\Directory\\MultipleClassesTest',
+                'Recca0120\\VSCode\\Tests\\Directory\\SecondClassTest',
+            ])
+        );
+    });
+
+    it('discover test suites from phpunit.xml', async () => {
+        const collection = new TestSuiteCollection();
+        const tree = (await collection.discover('**/*.php', {
+            cwd: cwd,
+            ignore: '**/vendor/**',
+        })).tree();
+
+        expect(tree.children.map(suite => suite.id)).toEqual([
+            'testsuite:Package Test Suite',
+        ]);
+
+        const children = (tree.children[0] as TestSuiteInfo).children.map(
+            suite => suite.id
+        );
+
+        expect(children).toEqual(
+            jasmine.arrayContaining([
+                'Recca0120\\VSCode\\Tests\\AssertionsTest',
+                'Recca0120\\VSCode\\Tests\\Directory\\ExtendsAbstractTest',
+            ])
+        );
+        expect(children).not.toContain(
+            'Recca0120\\VSCode\\Tests\\AbstractTest'
+        );
+        expect(
+            collection.ofTestSuite('Package Test Suite').map(suite => suite.id)
+        ).toEqual(children);
+    });
+
+    it('discover overlapping test suites from phpunit.xml', async () => {
+        const phpUnitXml = new PhpUnitXml();
+        const collection = new TestSuiteCollection(
+            new Parser(),
+            files,
+            phpUnitXml
+        );
+        spyOn(phpUnitXml, 'load').and.callFake(async () =>
+            phpUnitXml.parse(
+                `<phpunit>
+    <testsuites>
+        <testsuite name="All">
+            <directory suffix="Test.php">./tests</directory>
+        </testsuite>
+        <testsuite name="Directory">
+            <directory suffix="Test.php">./tests/Directory</directory>
+        </testsuite>
+    </testsuites>
+</phpunit>`,
+                join(cwd, 'phpunit.xml')
+            )
+        );
+
+        const tree = (await collection.discover('**/*.php', {
+            cwd: cwd,
+            ignore: '**/vendor/**',
+        })).tree();
+        const id = 'Recca0120\\VSCode\\Tests\\Directory\\HasPropertyTest';
+        const children = (name: string) =>
+            (tree.children.find(
+                suite => suite.id === `testsuite:${name}`
+            ) as TestSuiteInfo).children.map(suite => suite.id);
+
+        expect(children('All')).toContain(id);
+        expect(children('Directory')).toContain(id);
+        expect(children('Directory')).not.toContain(
+            'Recca0120\\VSCode\\Tests\\AssertionsTest'
+        );
+        expect(
+            collection.ofTestSuite('Directory').map(suite => suite.id)
+        ).toEqual(children('Directory'));
+    });
+
+    it('groups', async () => {
+        await suites.load(pattern, { cwd: cwd });
+        const id = 'Recca0120\\VSCode\\Tests\\Directory\\GroupTest';
+        const suite = suites
+            .tree()
+            .children.find(suite => suite.id === id) as TestSuiteInfo;
+
+        expect(suites.groups()).toEqual(['database', 'math', 'slow']);
+        expect(
+            suite.children.find(test => test.id === `${id}::test_database`)
         ).toMatchObject({
-            id,
-            label,
+            description: '@database @slow',
+            tooltip: `${id}::test_database\nGroups: database, slow`,
         });
     });
 
@@ -99,10 +209,12 @@ describe('TestSuiteCollection', () => {
         const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest';
         const label = getLabelById(id);
 
-        expect(await suites.get(file)).toMatchObject({
-            id,
-            label,
-        });
+        expect(await suites.get(file)).toMatchObject([
+            {
+                id,
+                label,
+            },
+        ]);
     });
 
     it('find test suite', async () => {
@@ -126,6 +238,51 @@ describe('TestSuiteCollection', () => {
         });
     });
 
+    it('find data set', async () => {
+        await suites.load(pattern, { cwd: cwd });
+        const id =
+            'Recca0120\\VSCode\\Tests\\AssertionsTest::addition_provider with data set #1';
+
+        expect(suites.find(id)).toMatchObject({ dataSet: '#1' });
+    });
+
+    it('data sets in tree', async () => {
+        await suites.load(pattern, { cwd: cwd });
+        const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest';
+        const suite = suites
+            .tree()
+            .children.find(suite => suite.id === id) as TestSuiteInfo;
+
+        expect(
+            suite.children.find(test => test.id === `${id}::addition_provider`)
+        ).toMatchObject({
+            type: 'suite',
+            children: [
+                {
+                    type: 'test',
+                    id: `${id}::addition_provider with data set #0`,
+                },
+                {
+                    type: 'test',
+                    id: `${id}::addition_provider with data set #1`,
+                },
+                {
+                    type: 'test',
+                    id: `${id}::addition_provider with data set #2`,
+                },
+            ],
+        });
+    });
+
+    it('put dynamic data set', async () => {
+        await suites.load(pattern, { cwd: cwd });
+        const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest::test_passed';
+
+        expect(suites.putDataSet(id, '#0')).toBeDefined();
+        expect(suites.putDataSet(id, '#0')).toBeUndefined();
+        expect(suites.find(`${id} with data set #0`)).toBeDefined();
+    });
+
     it('where test', async () => {
         await suites.load(pattern, { cwd: cwd });
         const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest::test_passed';
@@ -138,4 +295,47 @@ describe('TestSuiteCollection', () => {
             id: id,
         });
     });
+
+    describe('inherited tests', () => {
+        const abstractFile = projectPath('tests/AbstractTest.php');
+        const id = 'Recca0120\\VSCode\\Tests\\Directory\\ExtendsAbstractTest';
+
+        beforeAll(async () => {
+            await suites.load(pattern, { cwd: cwd });
+        });
+
+        it('find inherited test', () => {
+            const test = suites.find(`${id}::test_abstract`);
+
+            expect(test.file).toEqual(
+                projectPath(
+                    'tests/Directory/ExtendsAbstractTest.php'
+                ).toString()
+            );
+            expect(test.declaringFile).toEqual(abstractFile.toString());
+        });
+
+        it('export code lens on the parent definition', () => {
+            expect(
+                suites
+                    .exportCodeLens(abstractFile)
+                    .map(codeLens => codeLens.command!.arguments)
+            ).toEqual([
+                [jasmine.anything(), `${id}::test_abstract`],
+                [jasmine.anything(), `${id}::test_abstract`],
+            ]);
+        });
+
+        it('refresh subclasses when the parent changes', async () => {
+            const code = (await files.get(abstractFile)).replace(
+                'public function test_abstract()',
+                'public function test_changed()'
+            );
+
+            await suites.put(abstractFile, code);
+
+            expect(suites.find(`${id}::test_changed`)).toBeDefined();
+            expect(suites.find(`${id}::test_abstract`)).toBeUndefined();
+        });
+    });
 });
@@ -1,8 +1,13 @@
 import { Configuration } from '../src/Configuration';
-import { LogMessageNotification, MessageType } from 'vscode-languageserver';
+import {
+    FileChangeType,
+    LogMessageNotification,
+    MessageType,
+} from 'vscode-languageserver';
 import { OutputProblemMatcher } from '../src/OutputProblemMatcher';
 import { ProblemCollection } from '../src/ProblemCollection';
-import { projectPath } from './helpers';
+import { fixturePath, projectPath } from './helpers';
+import { readFileSync } from 'fs';
 import { TestEventCollection } from '../src/TestEventCollection';
 import { TestRunner } from '../src/TestRunner';
 import { TestSuiteCollection } from '../src/TestSuiteCollection';
@@ -87,6 +92,54 @@ describe('WorkspaceFolder', () => {
         });
     });
 
+    it('TestRunStartedEvent Run Test Suite', async () => {
+        spyOn(workspaceFolder, 'executeCommand');
+        await connection.triggerNotification(
+            workspaceFolder.requestName('TestRunStartedEvent'),
+            {
+                tests: ['testsuite:Package Test Suite'],
+            }
+        );
+
+        expect(workspaceFolder.executeCommand).toHaveBeenCalledWith({
+            command: 'phpunit.lsp.run-testsuite',
+            arguments: ['Package Test Suite'],
+        });
+    });
+
+    it('TestRunStartedEvent Debug', async () => {
+        spyOn(testRunner, 'setDebug').and.callThrough();
+        spyOn(testRunner, 'run').and.returnValue(Promise.resolve(0));
+
+        await connection.triggerNotification(
+            workspaceFolder.requestName('TestRunStartedEvent'),
+            { tests: ['root'], debug: true }
+        );
+
+        expect(testRunner.setDebug).toHaveBeenCalledWith(true);
+        expect(testRunner.run).toHaveBeenCalled();
+    });
+
+    it('detect deleted file', async () => {
+        const uri = projectPath(
+            'tests/Directory/MultipleClassesTest.php'
+        ).toString();
+        const id = 'Recca0120\\VSCode\\Tests\\Directory\\SecondClassTest';
+
+        await workspaceFolder.loadTest();
+        events.put(suites.get(uri));
+
+        expect(
+            await workspaceFolder.detectChange({
+                uri,
+                type: FileChangeType.Deleted,
+            })
+        ).toEqual([]);
+        expect(suites.find(id)).toBeUndefined();
+        expect(events.get(id)).toBeUndefined();
+        expect(events.get(`${id}::test_second_class`)).toBeUndefined();
+    });
+
     describe('execute command', () => {
         beforeAll(async () => {
             await workspaceFolder.loadTest();
@@ -130,6 +183,41 @@ describe('WorkspaceFolder', () => {
             );
         });
 
+        it('keep running when the client rejects progress', async () => {
+            const lines = readFileSync(fixturePath('teamcity.txt').fsPath)
+                .toString('UTF-8')
+                .split(/\r\n|\r|\n/g);
+            const unhandled = jasmine.createSpy('unhandledRejection');
+            (connection.sendRequest as jasmine.Spy).and.callFake(
+                (name: string) =>
+                    name === workspaceFolder.requestName('TestRunProgressEvent')
+                        ? Promise.reject(new Error('connection closed'))
+                        : undefined
+            );
+            spyOn(testRunner, 'run').and.callFake(async () => {
+                lines.forEach(line =>
+                    testRunner['process']['listeners'].forEach(listener =>
+                        listener(line)
+                    )
+                );
+
+                return 0;
+            });
+            process.on('unhandledRejection', unhandled);
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-all',
+            });
+            await new Promise(resolve => setImmediate(resolve));
+            process.removeListener('unhandledRejection', unhandled);
+
+            expect(connection.sendNotification).toHaveBeenCalledWith(
+                'TestRunProgressEvent',
+                jasmine.objectContaining({ completed: 4 })
+            );
+            expect(unhandled).not.toHaveBeenCalled();
+        });
+
         it('run file', async () => {
             const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest';
 
@@ -172,6 +260,339 @@ describe('WorkspaceFolder', () => {
             );
         });
 
+        it('run failed', async () => {
+            const file = projectPath('tests/AssertionsTest.php');
+            const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest::test_failed';
+            events.clear().put({ type: 'test', test: id, state: 'failed' });
+            spyOn(testRunner, 'run').and.callThrough();
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-failed',
+            });
+
+            expect(testRunner.run).toHaveBeenCalledWith(
+                { file: file.toString(), methods: [id] },
+                jasmine.anything()
+            );
+        });
+
+        it('cancel one of two concurrent runs', async () => {
+            const resolves: Function[] = [];
+            const run = spyOn(TestRunner.prototype, 'run').and.callFake(
+                () => new Promise(resolve => resolves.push(resolve))
+            );
+            const cancel = spyOn(
+                TestRunner.prototype,
+                'cancel'
+            ).and.returnValue(true);
+            const concurrent = new WorkspaceFolder(
+                folder,
+                connection,
+                config,
+                suites,
+                events,
+                problems,
+                problemMatcher,
+                new TestRunner()
+            );
+            const runFile = (id: string) =>
+                concurrent.executeCommand({
+                    command: 'phpunit.lsp.run-file',
+                    arguments: [`Recca0120\\VSCode\\Tests\\${id}`],
+                });
+            const runMode = config.defaults.runMode;
+            config.defaults.runMode = 'concurrent';
+
+            try {
+                const runs = [
+                    runFile('AssertionsTest'),
+                    runFile('CalculatorTest'),
+                ];
+                while (resolves.length < 2) {
+                    await new Promise(resolve => setTimeout(resolve, 1));
+                }
+
+                const [
+                    first,
+                    second,
+                ] = (connection.sendNotification as jasmine.Spy).calls
+                    .all()
+                    .filter(call => call.args[0] === 'TestRunStartedEvent')
+                    .map(call => call.args[1].runId);
+
+                await concurrent.executeCommand({
+                    command: 'phpunit.lsp.cancel',
+                    arguments: [second],
+                });
+                resolves.forEach(resolve => resolve(0));
+                await Promise.all(runs);
+
+                expect(first).not.toEqual(second);
+                expect(cancel).toHaveBeenCalledTimes(1);
+                expect(cancel.calls.mostRecent().object).toBe(
+                    run.calls.all()[1].object
+                );
+                expect(connection.sendNotification).toHaveBeenCalledWith(
+                    'TestRunFinishedEvent',
+                    jasmine.objectContaining({ runId: second, events: [] })
+                );
+            } finally {
+                config.defaults.runMode = runMode;
+            }
+        });
+
+        it('rerun every shard of a sharded run', async () => {
+            const run = spyOn(TestRunner.prototype, 'run').and.callFake(
+                function(this: TestRunner, params: any) {
+                    this['lastCommand'] = {
+                        title: 'PHPUnit LSP',
+                        command: 'phpunit',
+                        arguments: [params.file],
+                    };
+
+                    return Promise.resolve(0);
+                }
+            );
+            const rerun = spyOn(TestRunner.prototype, 'rerun');
+            const sharded = new WorkspaceFolder(
+                folder,
+                connection,
+                config,
+                suites,
+                events,
+                problems,
+                problemMatcher,
+                new TestRunner()
+            );
+            const shards = config.defaults.shards;
+            config.defaults.shards = 2;
+
+            try {
+                await sharded.executeCommand({
+                    command: 'phpunit.lsp.run-all',
+                });
+
+                const files = run.calls
+                    .all()
+                    .map(call => call.args[0].file)
+                    .sort();
+                const [
+                    finished,
+                ] = (connection.sendNotification as jasmine.Spy).calls
+                    .all()
+                    .filter(call => call.args[0] === 'TestRunFinishedEvent')
+                    .map(call => call.args[1]);
+
+                expect(files.length).toBeGreaterThan(1);
+                expect(
+                    finished.commands
+                        .map((command: any) => command.arguments[0])
+                        .sort()
+                ).toEqual(files);
+
+                run.calls.reset();
+                await sharded.executeCommand({
+                    command: 'phpunit.lsp.rerun',
+                    arguments: ['Recca0120\\VSCode\\Tests\\AssertionsTest'],
+                });
+
+                expect(rerun).not.toHaveBeenCalled();
+                expect(
+                    run.calls
+                        .all()
+                        .map(call => call.args[0].file)
+                        .sort()
+                ).toEqual(files);
+            } finally {
+                config.defaults.shards = shards;
+            }
+        });
+
+        it('stop running failed tests once cancelled', async () => {
+            events.clear().put([
+                {
+                    type: 'test',
+                    test:
+                        'Recca0120\\VSCode\\Tests\\AssertionsTest::test_failed',
+                    state: 'failed',
+                },
+                {
+                    type: 'test',
+                    test:
+                        'Recca0120\\VSCode\\Tests\\CalculatorTest::test_sum_fail',
+                    state: 'failed',
+                },
+            ]);
+            spyOn(testRunner, 'run').and.callFake(async () => {
+                await workspaceFolder.cancel();
+
+                return 0;
+            });
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-failed',
+            });
+
+            expect(testRunner.run).toHaveBeenCalledTimes(1);
+        });
+
+        it('keep running failed tests when another run is cancelled', async () => {
+            events.clear().put([
+                {
+                    type: 'test',
+                    test:
+                        'Recca0120\\VSCode\\Tests\\AssertionsTest::test_failed',
+                    state: 'failed',
+                },
+                {
+                    type: 'test',
+                    test:
+                        'Recca0120\\VSCode\\Tests\\CalculatorTest::test_sum_fail',
+                    state: 'failed',
+                },
+            ]);
+            spyOn(testRunner, 'run').and.callFake(async () => {
+                await workspaceFolder.cancel([-1]);
+
+                return 0;
+            });
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-failed',
+            });
+
+            expect(testRunner.run).toHaveBeenCalledTimes(2);
+        });
+
+        it('run with coverage', async () => {
+            spyOn(testRunner, 'setCoverage').and.callThrough();
+            spyOn(testRunner, 'getCoverage').and.returnValue(
+                readFileSync(fixturePath('clover.xml').fsPath).toString()
+            );
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-with-coverage',
+            });
+
+            expect(testRunner.setCoverage).toHaveBeenCalledWith(true);
+            expect(connection.sendNotification).toHaveBeenCalledWith(
+                'CoverageEvent',
+                {
+                    coverages: jasmine.arrayContaining([
+                        {
+                            uri: 'file:///project-sub/src/Calculator.php',
+                            covered: [10, 15],
+                            uncovered: [20],
+                            methods: 3,
+                            coveredMethods: 2,
+                        },
+                    ]),
+                }
+            );
+        });
+
+        it('debug test at cursor', async () => {
+            const file = projectPath('tests/AssertionsTest.php').toString();
+            spyOn(testRunner, 'setDebug').and.callThrough();
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.debug-test-at-cursor',
+                arguments: [file, 14],
+            });
+
+            expect(testRunner.setDebug).toHaveBeenCalledWith(true);
+            expect(connection.sendNotification).toHaveBeenCalledWith(
+                'TestRunStartedEvent',
+                jasmine.objectContaining({ debug: true })
+            );
+        });
+
+        it('add data sets once the run has finished', async () => {
+            const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest';
+            const file = projectPath('tests/AssertionsTest.php').fsPath;
+            spyOn(testRunner, 'getJUnitLog').and.returnValue(
+                [
+                    '<testsuites><testsuite name="AssertionsTest" tests="1" failures="1">',
+                    `<testcase name="addition_provider with data set #9" class="${id}" file="${file}" line="56">`,
+                    `<failure type="Failure">Failed\n\n${file}:58\n</failure>`,
+                    '</testcase></testsuite></testsuites>',
+                ].join('')
+            );
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-file',
+                arguments: [id],
+            });
+
+            const requests = (connection.sendRequest as jasmine.Spy).calls
+                .allArgs()
+                .map(args => args[0]);
+
+            expect(
+                requests.indexOf(
+                    workspaceFolder.requestName('TestLoadStartedEvent')
+                )
+            ).toBeGreaterThan(
+                requests.indexOf(
+                    workspaceFolder.requestName('TestRunFinishedEvent')
+                )
+            );
+            expect(connection.sendRequest).toHaveBeenCalledWith(
+                workspaceFolder.requestName('TestRunStartedEvent'),
+                {
+                    tests: jasmine.arrayContaining([
+                        `${id}::addition_provider with data set #9`,
+                    ]),
+                    events: jasmine.arrayContaining([
+                        jasmine.objectContaining({
+                            test: `${id}::addition_provider with data set #9`,
+                            state: 'failed',
+                        }),
+                    ]),
+                }
+            );
+        });
+
+        it('add passed data sets from the junit log', async () => {
+            const id = 'Recca0120\\VSCode\\Tests\\AssertionsTest';
+            const file = projectPath('tests/AssertionsTest.php').fsPath;
+            const testCase = (dataSet: string) =>
+                `<testcase name="addition_provider with data set ${dataSet}" class="${id}" file="${file}" line="56"/>`;
+            spyOn(testRunner, 'getJUnitLog').and.returnValue(
+                [
+                    '<testsuites><testsuite name="AssertionsTest" tests="2">',
+                    testCase('#7'),
+                    testCase('&quot;eight&quot;'),
+                    '</testsuite></testsuites>',
+                ].join('')
+            );
+
+            await workspaceFolder.executeCommand({
+                command: 'phpunit.lsp.run-file',
+                arguments: [id],
+            });
+
+            expect(connection.sendRequest).toHaveBeenCalledWith(
+                workspaceFolder.requestName('TestRunStartedEvent'),
+                {
+                    tests: jasmine.arrayContaining([
+                        `${id}::addition_provider with data set #7`,
+                        `${id}::addition_provider with data set "eight"`,
+                    ]),
+                    events: jasmine.arrayContaining([
+                        jasmine.objectContaining({
+                            test: `${id}::addition_provider with data set #7`,
+                            state: 'passed',
+                        }),
+                        jasmine.objectContaining({
+                            test: `${id}::addition_provider with data set "eight"`,
+                            state: 'passed',
+                        }),
+                    ]),
+                }
+            );
+        });
+
         it('rerun', async () => {
             const file = projectPath('tests/AssertionsTest.php').toString();
 
@@ -67,4 +67,20 @@ class AssertionsTest extends TestCase
             [1, 0, 2],
         ];
     }
+
+    /**
+     * @dataProvider named_provider
+     */
+    public function test_named_data_set($value)
+    {
+        $this->assertTrue($value);
+    }
+
+    public function named_provider()
+    {
+        return [
+            'first' => [true],
+            'second' => [true],
+        ];
+    }
 }
@@ -0,0 +1,51 @@
+<?php
+
+namespace Recca0120\VSCode\Tests;
+
+use PHPUnit\Framework\Attributes\CoversClass;
+use PHPUnit\Framework\Attributes\DataProvider;
+use PHPUnit\Framework\Attributes\Depends;
+use PHPUnit\Framework\Attributes\Group;
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\Attributes\TestDox;
+use PHPUnit\Framework\TestCase;
+use Recca0120\VSCode\Calculator;
+
+#[CoversClass(Calculator::class)]
+#[TestDox('Calculator attributes')]
+class AttributesTest extends TestCase
+{
+    #[Test]
+    #[Group('math')]
+    public function it_should_be_true()
+    {
+        $this->assertTrue(true);
+    }
+
+    #[Test]
+    #[Depends('it_should_be_true')]
+    #[TestDox('It depends on another test')]
+    public function it_depends()
+    {
+        $this->assertTrue(true);
+    }
+
+    #[Test, DataProvider('additionProvider')]
+    public function it_adds($a, $b, $expected)
+    {
+        $this->assertSame($expected, $a + $b);
+    }
+
+    public static function additionProvider()
+    {
+        return [
+            [0, 0, 0],
+            [0, 1, 1],
+        ];
+    }
+
+    #[\PHPUnit\Framework\Attributes\Group('unit')]
+    public function it_is_not_a_test()
+    {
+    }
+}
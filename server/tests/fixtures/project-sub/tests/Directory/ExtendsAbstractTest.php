@@ -0,0 +1,13 @@
+<?php
+
+namespace Recca0120\VSCode\Tests\Directory;
+
+use Recca0120\VSCode\Tests\AbstractTest;
+
+class ExtendsAbstractTest extends AbstractTest
+{
+    public function test_extends_abstract()
+    {
+        $this->assertTrue(true);
+    }
+}
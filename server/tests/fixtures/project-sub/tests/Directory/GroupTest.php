@@ -0,0 +1,24 @@
+<?php
+
+namespace Recca0120\VSCode\Tests\Directory;
+
+use PHPUnit\Framework\TestCase;
+
+/**
+ * @group slow
+ */
+class GroupTest extends TestCase
+{
+    /**
+     * @group database
+     */
+    public function test_database()
+    {
+        $this->assertTrue(true);
+    }
+
+    public function test_slow()
+    {
+        $this->assertTrue(true);
+    }
+}
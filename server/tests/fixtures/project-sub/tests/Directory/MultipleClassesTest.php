@@ -0,0 +1,21 @@
+<?php
+
+namespace Recca0120\VSCode\Tests\Directory;
+
+use PHPUnit\Framework\TestCase;
+
+class MultipleClassesTest extends TestCase
+{
+    public function test_first_class()
+    {
+        $this->assertTrue(true);
+    }
+}
+
+class SecondClassTest extends TestCase
+{
+    public function test_second_class()
+    {
+        $this->assertTrue(true);
+    }
+}
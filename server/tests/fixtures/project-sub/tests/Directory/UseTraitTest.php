@@ -17,4 +17,8 @@ class UseTraitTest extends TestCase
 
 trait UseTrait
 {
+    public function test_trait_method()
+    {
+        $this->assertTrue(true);
+    }
 }
@@ -216,6 +216,29 @@ declare module 'php-parser' {
         errors: ParserError[];
     }
 
+    /**
+     * An attribute, i.e., #[Name(arguments)]
+     */
+    interface Attribute extends Node {
+        name: String;
+        args: Node[];
+    }
+
+    /**
+     * A group of attributes, i.e., #[First, Second]
+     */
+    interface AttrGroup extends Node {
+        attrs: Attribute[];
+    }
+
+    /**
+     * A named argument, i.e., name: value
+     */
+    interface NamedArgument extends Node {
+        name: String;
+        value: Node;
+    }
+
     interface Parser {
         lexer: Lexer;
         ast: AST;
@@ -335,6 +358,7 @@ declare module 'php-parser' {
             short_tags?: Boolean;
         };
         parser?: {
+            version?: String | Number;
             php7?: Boolean;
             debug?: Boolean;
             extractDoc?: Boolean;